@@ -1,10 +1,19 @@
 export {
 	AppResources,
+	buildAppInsertURL,
 	buildAppItemURL,
 	buildAppListingURL,
+	createApp,
+	deleteApp,
+	type EnsureAppResult,
+	ensureApp,
 	getApp,
 	listApps,
+	paginateApps,
+	parseAppInsertPayload,
 	parseAppItemResponse,
 	parseAppListingResponse,
+	parseAppUpdatePayload,
+	updateApp,
 } from "./resources.js";
 export * from "./schema.js";
@@ -0,0 +1,229 @@
+import { type Mock, afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { HttpError } from '../common/errors/http.js';
+import { ValidationError } from '../common/errors/validation.js';
+import type { Authorization } from '../common/resources/authorization.js';
+import { MockHelpers, TestDataFactory, TestSetup } from '../common/test-utils.js';
+import {
+  AppResources,
+  createApp,
+  deleteApp,
+  ensureApp,
+  updateApp,
+} from './resources.js';
+
+describe('Apps Resources', () => {
+  let mockFetch: Mock;
+  let mockAuthorization: Mock<Authorization>;
+  let mockInstance: any;
+  let validApp: any;
+
+  beforeEach(() => {
+    const testEnv = TestSetup.createTestEnvironment();
+    mockFetch = testEnv.mockFetch;
+    mockAuthorization = testEnv.mockAuthorization;
+
+    mockInstance = {
+      config: {
+        host: 'https://api.test.example.com',
+        accessToken: 'test-token',
+      },
+      authorizer: mockAuthorization,
+    };
+
+    validApp = TestDataFactory.validApp();
+  });
+
+  afterEach(() => {
+    TestSetup.standardAfterEach();
+  });
+
+  describe('createApp function', () => {
+    test('should POST the validated payload to the listing URL', async () => {
+      const payload = TestDataFactory.validInsertAppPayload();
+      mockFetch.mockResolvedValueOnce(MockHelpers.createMockResponse(validApp));
+
+      const result = await createApp(mockInstance, {
+        ...payload,
+        extraField: 'should-be-removed',
+      } as any);
+
+      expect(result).toEqual(expect.objectContaining({ handle: 'test-app' }));
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL('/v1/apps', mockInstance.config.host),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify(payload),
+        })
+      );
+    });
+
+    test('should reject an invalid payload without sending a request', async () => {
+      const error = (await createApp(mockInstance, {
+        name: 'No Handle',
+      } as any).catch((e) => e)) as ValidationError;
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fields).toHaveProperty('handle');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should surface conflicts as HttpError', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createApiErrorResponse('conflict', 'App exists', 409)
+      );
+
+      const error = (await createApp(
+        mockInstance,
+        TestDataFactory.validInsertAppPayload()
+      ).catch((e) => e)) as HttpError;
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(409);
+    });
+  });
+
+  describe('updateApp function', () => {
+    test('should PUT the validated payload to the item URL', async () => {
+      const payload = TestDataFactory.validUpdateAppPayload();
+      mockFetch.mockResolvedValueOnce(MockHelpers.createMockResponse(validApp));
+
+      await updateApp(mockInstance, 'test-app', payload);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL('/v1/apps/test-app', mockInstance.config.host),
+        expect.objectContaining({
+          method: 'PUT',
+          body: JSON.stringify(payload),
+        })
+      );
+    });
+
+    test('should allow clearing the avatar', async () => {
+      mockFetch.mockResolvedValueOnce(MockHelpers.createMockResponse(validApp));
+
+      await updateApp(mockInstance, 'test-app', { avatar: null });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual({ avatar: null });
+    });
+
+    test('should reject an invalid payload without sending a request', async () => {
+      await expect(
+        updateApp(mockInstance, 'test-app', { avatar: 'not-a-url' })
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteApp function', () => {
+    test('should DELETE the item URL', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponseWithJsonError()
+      );
+
+      await expect(deleteApp(mockInstance, 'test-app')).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL('/v1/apps/test-app', mockInstance.config.host),
+        expect.objectContaining({ method: 'DELETE', body: undefined })
+      );
+    });
+
+    test('should surface a missing app as HttpError', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createApiErrorResponse('not_found', 'No such app', 404)
+      );
+
+      await expect(deleteApp(mockInstance, 'missing-app')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('AppResources class', () => {
+    test('should delegate mutations to the module functions', async () => {
+      const resources = new AppResources(mockInstance);
+      mockFetch
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validApp))
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validApp))
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(undefined));
+
+      await resources.createItem(TestDataFactory.validInsertAppPayload());
+      await resources.updateItem('test-app', { name: 'Renamed' });
+      await resources.deleteItem('test-app');
+
+      expect(mockFetch.mock.calls.map(([, init]) => init.method)).toEqual([
+        'POST',
+        'PUT',
+        'DELETE',
+      ]);
+    });
+  });
+
+  describe('ensureApp function', () => {
+    const desired = {
+      handle: 'test-app',
+      name: 'Test App',
+      avatar: 'https://example.com/avatar.png',
+    };
+
+    test('should create the app when it does not exist', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createApiErrorResponse('not_found', 'No such app', 404)
+        )
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validApp));
+
+      const result = await ensureApp(mockInstance, desired);
+
+      expect(result.outcome).toBe('created');
+      expect(result.diff).toEqual({
+        name: { current: undefined, desired: 'Test App' },
+        avatar: { current: undefined, desired: 'https://example.com/avatar.png' },
+      });
+      const [, init] = mockFetch.mock.calls[1];
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual(desired);
+    });
+
+    test('should only send the fields that differ', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse({ ...validApp, name: 'Old Name' })
+        )
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validApp));
+
+      const result = await ensureApp(mockInstance, desired);
+
+      expect(result.outcome).toBe('updated');
+      expect(result.diff).toEqual({
+        name: { current: 'Old Name', desired: 'Test App' },
+      });
+      const [url, init] = mockFetch.mock.calls[1];
+      expect(url).toEqual(new URL('/v1/apps/test-app', mockInstance.config.host));
+      expect(init.method).toBe('PUT');
+      expect(JSON.parse(init.body)).toEqual({ name: 'Test App' });
+    });
+
+    test('should not send a mutation when the app matches', async () => {
+      mockFetch.mockResolvedValueOnce(MockHelpers.createMockResponse(validApp));
+
+      const result = await ensureApp(mockInstance, desired);
+
+      expect(result.outcome).toBe('unchanged');
+      expect(result.diff).toEqual({});
+      expect(result.item.handle).toBe('test-app');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should surface errors other than not found', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createApiErrorResponse('forbidden', 'Nope', 403)
+      );
+
+      await expect(ensureApp(mockInstance, desired)).rejects.toMatchObject({
+        statusCode: 403,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,29 +1,107 @@
 import type { MondoAppConnect } from "../common/init.js";
-import { getItemWithAuthorization } from "../common/resources/operations.js";
+import {
+	changedFields,
+	diffFields,
+	EnsureOutcome,
+	type EnsureResult,
+	findItem,
+	hasChanges,
+} from "../common/resources/ensure.js";
+import {
+	deleteItemWithAuthorization,
+	getItemWithAuthorization,
+	postItemWithAuthorization,
+	putItemWithAuthorization,
+	type RequestOptions,
+} from "../common/resources/operations.js";
+import { Paginator } from "../common/resources/paginator.js";
 import {
 	addPaginationToURL,
-	parseEgressSchema,
+	type ParseOptions,
+	parseIngressSchema,
 } from "../common/resources/utils.js";
+import {
+	parseResponse,
+	responseParseOptions,
+} from "../common/resources/validation.js";
 import {
 	type PaginationCollection,
 	PaginationCollectionSchema,
 } from "../common/schema/collection.js";
 import type { Pagination } from "../common/schema/pagination.js";
-import { type AppHandle, type AppPayload, AppPayloadSchema } from "./schema.js";
+import {
+	type AppHandle,
+	type AppPayload,
+	AppPayloadSchema,
+	type InsertAppInput,
+	type InsertAppPayload,
+	InsertAppPayloadSchema,
+	type UpdateAppInput,
+	type UpdateAppPayload,
+	UpdateAppPayloadSchema,
+} from "./schema.js";
 
 export const PATH = "/v1/apps";
 
+export type EnsureAppResult = EnsureResult<
+	AppPayload,
+	Omit<InsertAppPayload, "handle">
+>;
+
 export class AppResources {
 	public constructor(private readonly instance: MondoAppConnect) {}
 
 	public listItems(
 		pagination?: Pagination,
+		options?: RequestOptions,
 	): Promise<PaginationCollection<AppPayload>> {
-		return listApps(this.instance, pagination);
+		return listApps(this.instance, pagination, options);
+	}
+
+	/**
+	 * Every item of the listing, fetched page by page while iterating
+	 */
+	public list(
+		pagination?: Pagination,
+		options?: RequestOptions,
+	): Paginator<AppPayload> {
+		return paginateApps(this.instance, pagination, options);
+	}
+
+	public getItem(
+		app: AppHandle,
+		options?: RequestOptions,
+	): Promise<AppPayload> {
+		return getApp(this.instance, app, options);
+	}
+
+	public createItem(
+		item: InsertAppInput,
+		options?: RequestOptions,
+	): Promise<AppPayload> {
+		return createApp(this.instance, item, options);
+	}
+
+	public updateItem(
+		app: AppHandle,
+		item: UpdateAppInput,
+		options?: RequestOptions,
+	): Promise<AppPayload> {
+		return updateApp(this.instance, app, item, options);
+	}
+
+	public deleteItem(app: AppHandle, options?: RequestOptions): Promise<void> {
+		return deleteApp(this.instance, app, options);
 	}
 
-	public getItem(app: AppHandle): Promise<AppPayload> {
-		return getApp(this.instance, app);
+	/**
+	 * Creates or updates the app so it matches the input
+	 */
+	public ensureItem(
+		item: InsertAppInput,
+		options?: RequestOptions,
+	): Promise<EnsureAppResult> {
+		return ensureApp(this.instance, item, options);
 	}
 }
 
@@ -41,38 +119,169 @@ export function buildAppItemURL(
 	return new URL(`${PATH}/${app}`, instance.config.host);
 }
 
+export function buildAppInsertURL(instance: MondoAppConnect): URL {
+	return new URL(PATH, instance.config.host);
+}
+
 export function parseAppListingResponse(
 	data: unknown,
+	options?: ParseOptions,
 ): PaginationCollection<AppPayload> {
-	return parseEgressSchema(
-		PaginationCollectionSchema(AppPayloadSchema).safeParse(data),
+	return parseResponse(
+		PaginationCollectionSchema(AppPayloadSchema),
+		data,
+		options,
 	);
 }
 
-export function parseAppItemResponse(data: unknown): AppPayload {
-	return parseEgressSchema(AppPayloadSchema.safeParse(data));
+export function parseAppItemResponse(
+	data: unknown,
+	options?: ParseOptions,
+): AppPayload {
+	return parseResponse(AppPayloadSchema, data, options);
+}
+
+export function parseAppInsertPayload(
+	data: unknown,
+	options?: ParseOptions,
+): InsertAppPayload {
+	return parseIngressSchema(InsertAppPayloadSchema.safeParse(data), options);
+}
+
+export function parseAppUpdatePayload(
+	data: unknown,
+	options?: ParseOptions,
+): UpdateAppPayload {
+	return parseIngressSchema(UpdateAppPayloadSchema.safeParse(data), options);
 }
 
 export async function listApps(
 	instance: MondoAppConnect,
 	pagination?: Pagination,
+	options?: RequestOptions,
 ): Promise<PaginationCollection<AppPayload>> {
+	const url = buildAppListingURL(instance, pagination);
+
 	return parseAppListingResponse(
-		await getItemWithAuthorization(
-			buildAppListingURL(instance, pagination),
+		await getItemWithAuthorization(url, instance.authorizer, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+}
+
+export function paginateApps(
+	instance: MondoAppConnect,
+	pagination?: Pagination,
+	options?: RequestOptions,
+): Paginator<AppPayload> {
+	return new Paginator(
+		(page) => listApps(instance, page, options),
+		pagination,
+		{
+			endpoint: buildAppListingURL(instance).toString(),
+		},
+	);
+}
+
+export async function getApp(
+	instance: MondoAppConnect,
+	app: AppHandle,
+	options?: RequestOptions,
+): Promise<AppPayload> {
+	const url = buildAppItemURL(instance, app);
+
+	return parseAppItemResponse(
+		await getItemWithAuthorization(url, instance.authorizer, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+}
+
+export async function createApp(
+	instance: MondoAppConnect,
+	item: InsertAppInput,
+	options?: RequestOptions,
+): Promise<AppPayload> {
+	const url = buildAppInsertURL(instance);
+
+	return parseAppItemResponse(
+		await postItemWithAuthorization(
+			url,
 			instance.authorizer,
+			parseAppInsertPayload(item, { logger: instance.logger }),
+			{ ...instance.operationOptions, ...options },
 		),
+		responseParseOptions(instance, url),
 	);
 }
 
-export async function getApp(
+export async function updateApp(
 	instance: MondoAppConnect,
 	app: AppHandle,
+	item: UpdateAppInput,
+	options?: RequestOptions,
 ): Promise<AppPayload> {
+	const url = buildAppItemURL(instance, app);
+
 	return parseAppItemResponse(
-		await getItemWithAuthorization(
-			buildAppItemURL(instance, app),
+		await putItemWithAuthorization(
+			url,
 			instance.authorizer,
+			parseAppUpdatePayload(item, { logger: instance.logger }),
+			{ ...instance.operationOptions, ...options },
 		),
+		responseParseOptions(instance, url),
+	);
+}
+
+export async function deleteApp(
+	instance: MondoAppConnect,
+	app: AppHandle,
+	options?: RequestOptions,
+): Promise<void> {
+	await deleteItemWithAuthorization(
+		buildAppItemURL(instance, app),
+		instance.authorizer,
+		undefined,
+		{ ...instance.operationOptions, ...options },
 	);
 }
+
+/**
+ * Creates the app when it does not exist, or updates the fields that differ.
+ * Nothing is sent when it already matches; an unset avatar is left as is.
+ */
+export async function ensureApp(
+	instance: MondoAppConnect,
+	item: InsertAppInput,
+	options?: RequestOptions,
+): Promise<EnsureAppResult> {
+	const { handle, ...desired } = parseAppInsertPayload(item, {
+		logger: instance.logger,
+	});
+	const current = await findItem(getApp(instance, handle, options));
+
+	if (!current) {
+		return {
+			outcome: EnsureOutcome.CREATED,
+			item: await createApp(instance, { handle, ...desired }, options),
+			diff: diffFields(undefined, desired),
+		};
+	}
+
+	const diff = diffFields(current, desired);
+
+	if (!hasChanges(diff)) {
+		return { outcome: EnsureOutcome.UNCHANGED, item: current, diff };
+	}
+
+	return {
+		outcome: EnsureOutcome.UPDATED,
+		item: await updateApp(instance, handle, changedFields(diff), options),
+		diff,
+	};
+}
@@ -4,7 +4,7 @@ import {
 	HandleSchema,
 	RequiredDatePayloadSchema,
 	RequiredDateSchema,
-} from "../common/index.js";
+} from "../common/schema/schema.js";
 
 export { HandleSchema as AppHandleSchema, type Handle as AppHandle };
 
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { HttpError } from '../errors/http.js';
+import { MondoAppConnect } from '../init.js';
+import { ClientCredentialsAuth } from './client-credentials.js';
+
+describe('Common Auth - Client Credentials', () => {
+  const tokenUrl = 'https://auth.example.com/oauth/token';
+
+  const tokenResponse = (accessToken: string, expiresIn?: number) =>
+    new Response(
+      JSON.stringify({
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: expiresIn,
+      }),
+      { status: 200, headers: { 'content-type': 'application/json' } }
+    );
+
+  const authorizationOf = async (auth: ClientCredentialsAuth) =>
+    new Headers((await auth.authorize({})).headers).get('authorization');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should request a token with client_secret_basic by default', async () => {
+    const transport = vi.fn().mockResolvedValueOnce(tokenResponse('abc', 3600));
+    const auth = new ClientCredentialsAuth({
+      tokenUrl,
+      clientId: 'client',
+      clientSecret: 'secret',
+      scope: ['read', 'write'],
+      fetch: transport,
+    });
+
+    expect(await authorizationOf(auth)).toBe('Bearer abc');
+
+    const [url, request] = transport.mock.calls[0];
+    expect(String(url)).toBe(tokenUrl);
+    expect(request.method).toBe('POST');
+    expect(new Headers(request.headers).get('authorization')).toBe(
+      `Basic ${Buffer.from('client:secret').toString('base64')}`
+    );
+    const body = new URLSearchParams(request.body);
+    expect(body.get('grant_type')).toBe('client_credentials');
+    expect(body.get('scope')).toBe('read write');
+    expect(body.get('client_secret')).toBeNull();
+  });
+
+  test('should send credentials in the body with client_secret_post', async () => {
+    const transport = vi.fn().mockResolvedValueOnce(tokenResponse('abc'));
+    const auth = new ClientCredentialsAuth({
+      tokenUrl,
+      clientId: 'client',
+      clientSecret: 'secret',
+      audience: 'https://api.example.com',
+      authMethod: 'client_secret_post',
+      fetch: transport,
+    });
+
+    await auth.authorize({});
+
+    const [, request] = transport.mock.calls[0];
+    const body = new URLSearchParams(request.body);
+    expect(body.get('client_id')).toBe('client');
+    expect(body.get('client_secret')).toBe('secret');
+    expect(body.get('audience')).toBe('https://api.example.com');
+    expect(new Headers(request.headers).get('authorization')).toBeNull();
+  });
+
+  test('should cache the token until shortly before it expires', async () => {
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(tokenResponse('first', 3600))
+      .mockResolvedValueOnce(tokenResponse('second', 3600));
+    const auth = new ClientCredentialsAuth({
+      tokenUrl,
+      clientId: 'client',
+      clientSecret: 'secret',
+      refreshBeforeExpiryMs: 60_000,
+      fetch: transport,
+    });
+
+    expect(await authorizationOf(auth)).toBe('Bearer first');
+
+    vi.advanceTimersByTime(3_500_000);
+    expect(await authorizationOf(auth)).toBe('Bearer first');
+
+    vi.advanceTimersByTime(60_000);
+    expect(await authorizationOf(auth)).toBe('Bearer second');
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  test('should share one token request between concurrent callers', async () => {
+    const transport = vi.fn().mockResolvedValueOnce(tokenResponse('abc', 3600));
+    const auth = new ClientCredentialsAuth({
+      tokenUrl,
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetch: transport,
+    });
+
+    const results = await Promise.all([
+      authorizationOf(auth),
+      authorizationOf(auth),
+      authorizationOf(auth),
+    ]);
+
+    expect(results).toEqual(['Bearer abc', 'Bearer abc', 'Bearer abc']);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  test('should request a new token after refresh', async () => {
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(tokenResponse('first', 3600))
+      .mockResolvedValueOnce(tokenResponse('second', 3600));
+    const auth = new ClientCredentialsAuth({
+      tokenUrl,
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetch: transport,
+    });
+
+    await auth.authorize({});
+    await auth.refresh();
+
+    expect(await authorizationOf(auth)).toBe('Bearer second');
+  });
+
+  test('should surface token endpoint failures as HttpError', async () => {
+    const transport = vi.fn().mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          error: 'invalid_client',
+          error_description: 'Unknown client',
+        }),
+        { status: 401, headers: { 'content-type': 'application/json' } }
+      )
+    );
+    const auth = new ClientCredentialsAuth({
+      tokenUrl,
+      clientId: 'client',
+      clientSecret: 'wrong',
+      fetch: transport,
+    });
+
+    const error = await auth.authorize({}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.statusCode).toBe(401);
+  });
+
+  test('should send token requests through the client transport', async () => {
+    const transport = vi.fn(async (url: URL | string) =>
+      String(url) === tokenUrl
+        ? tokenResponse('abc', 3600)
+        : new Response('{}', { status: 200 })
+    );
+    const instance = new MondoAppConnect({
+      auth: new ClientCredentialsAuth({
+        tokenUrl,
+        clientId: 'client',
+        clientSecret: 'secret',
+      }),
+      fetch: transport,
+    });
+
+    const request = await instance.authorizer({});
+
+    expect(new Headers(request.headers).get('authorization')).toBe('Bearer abc');
+    expect(String(transport.mock.calls[0][0])).toBe(tokenUrl);
+  });
+
+  test('should prefer its own transport over the client transport', async () => {
+    const own = vi.fn().mockResolvedValueOnce(tokenResponse('abc'));
+    const client = vi.fn();
+    const auth = new ClientCredentialsAuth({
+      tokenUrl,
+      clientId: 'client',
+      clientSecret: 'secret',
+      fetch: own,
+    });
+
+    await auth.authorize({}, { fetch: client });
+
+    expect(own).toHaveBeenCalledTimes(1);
+    expect(client).not.toHaveBeenCalled();
+  });
+
+  test('should reject invalid credentials configuration', () => {
+    expect(
+      () =>
+        new ClientCredentialsAuth({
+          tokenUrl: 'not-a-url',
+          clientId: 'client',
+          clientSecret: 'secret',
+        })
+    ).toThrow('Invalid client credentials:');
+  });
+});
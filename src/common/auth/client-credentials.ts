@@ -0,0 +1,161 @@
+import { z } from "zod";
+import type { Transport } from "../resources/transport.js";
+import { responseToHttpError, toHttpError } from "../resources/utils.js";
+import {
+	type AuthContext,
+	type AuthStrategy,
+	withHeader,
+} from "./strategies.js";
+
+const ClientCredentialsSchema = z.object({
+	tokenUrl: z.union([z.instanceof(URL), z.url()]).transform((v) => new URL(v)),
+	clientId: z.string().min(1),
+	clientSecret: z.string().min(1),
+	scope: z
+		.union([z.string(), z.array(z.string())])
+		.optional()
+		.transform((v) => (Array.isArray(v) ? v.join(" ") : v)),
+	audience: z.string().optional(),
+	authMethod: z
+		.enum(["client_secret_basic", "client_secret_post"])
+		.default("client_secret_basic"),
+	refreshBeforeExpiryMs: z.number().min(0).default(60_000),
+	// Token requests fall back to the client's `fetch`, then the global fetch
+	fetch: z
+		.custom<Transport>((value) => typeof value === "function", {
+			message: "fetch must be a function",
+		})
+		.optional(),
+});
+export type ClientCredentialsProps = z.input<typeof ClientCredentialsSchema>;
+type ClientCredentials = z.output<typeof ClientCredentialsSchema>;
+
+const TokenResponseSchema = z.object({
+	access_token: z.string().min(1),
+	token_type: z.string().optional(),
+	expires_in: z.coerce.number().optional(),
+});
+
+type CachedToken = {
+	value: string;
+	expiresAt?: number;
+};
+
+/**
+ * OAuth2 client-credentials grant.  Tokens are cached and requested again
+ * shortly before they expire; concurrent requests share a single token call.
+ */
+export class ClientCredentialsAuth implements AuthStrategy {
+	private readonly credentials: ClientCredentials;
+	private token?: CachedToken;
+	private pending?: Promise<CachedToken>;
+
+	public constructor(props: ClientCredentialsProps) {
+		try {
+			this.credentials = ClientCredentialsSchema.parse(props);
+		} catch (error) {
+			if (error instanceof z.ZodError) {
+				throw new Error(`Invalid client credentials: ${error.message}`);
+			}
+
+			throw error;
+		}
+	}
+
+	public async authorize(
+		request: RequestInit,
+		context?: AuthContext,
+	): Promise<RequestInit> {
+		const token = await this.accessToken(
+			this.credentials.fetch ?? context?.fetch ?? fetch,
+		);
+
+		return withHeader(request, "authorization", `Bearer ${token}`);
+	}
+
+	public async refresh(): Promise<void> {
+		this.token = undefined;
+	}
+
+	private async accessToken(transport: Transport): Promise<string> {
+		if (this.token && !this.isExpiring(this.token)) {
+			return this.token.value;
+		}
+
+		this.pending ??= this.requestToken(transport).finally(() => {
+			this.pending = undefined;
+		});
+		this.token = await this.pending;
+
+		return this.token.value;
+	}
+
+	private isExpiring(token: CachedToken): boolean {
+		return (
+			token.expiresAt !== undefined &&
+			token.expiresAt - this.credentials.refreshBeforeExpiryMs <= Date.now()
+		);
+	}
+
+	private async requestToken(transport: Transport): Promise<CachedToken> {
+		const { clientId, clientSecret, scope, audience, authMethod } =
+			this.credentials;
+		const headers = new Headers([
+			["accept", "application/json"],
+			["content-type", "application/x-www-form-urlencoded"],
+		]);
+		const body = new URLSearchParams([["grant_type", "client_credentials"]]);
+
+		if (authMethod === "client_secret_basic") {
+			headers.set(
+				"authorization",
+				`Basic ${Buffer.from(
+					`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`,
+				).toString("base64")}`,
+			);
+		} else {
+			body.set("client_id", clientId);
+			body.set("client_secret", clientSecret);
+		}
+
+		if (scope) {
+			body.set("scope", scope);
+		}
+
+		if (audience) {
+			body.set("audience", audience);
+		}
+
+		const request = {
+			method: "POST",
+			url: this.credentials.tokenUrl.toString(),
+		};
+
+		try {
+			const requestedAt = Date.now();
+			const response = await transport(this.credentials.tokenUrl, {
+				method: "POST",
+				headers,
+				body: body.toString(),
+			});
+
+			if (!response.ok) {
+				throw await responseToHttpError(response, request);
+			}
+
+			const { access_token, expires_in } = TokenResponseSchema.parse(
+				await response.json(),
+			);
+
+			return {
+				value: access_token,
+				expiresAt:
+					expires_in !== undefined
+						? requestedAt + expires_in * 1000
+						: undefined,
+			};
+		} catch (error) {
+			throw toHttpError(error, request);
+		}
+	}
+}
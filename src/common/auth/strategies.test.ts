@@ -0,0 +1,97 @@
+import { describe, expect, test, vi } from 'vitest';
+import {
+  ApiKeyAuth,
+  AuthStrategySchema,
+  BearerTokenAuth,
+  TokenProviderAuth,
+} from './strategies.js';
+
+describe('Common Auth - Strategies', () => {
+  const headerOf = (request: RequestInit, name: string) =>
+    new Headers(request.headers).get(name);
+
+  describe('BearerTokenAuth', () => {
+    test('should send the token with the Bearer scheme', () => {
+      const request = new BearerTokenAuth('abc').authorize({ method: 'GET' });
+
+      expect(headerOf(request, 'authorization')).toBe('Bearer abc');
+      expect(request.method).toBe('GET');
+    });
+
+    test('should preserve existing headers', () => {
+      const request = new BearerTokenAuth('abc').authorize({
+        headers: { accept: 'application/json' },
+      });
+
+      expect(headerOf(request, 'accept')).toBe('application/json');
+    });
+
+    test('should replace an existing authorization header', () => {
+      const request = new BearerTokenAuth('abc').authorize({
+        headers: { authorization: 'Bearer stale' },
+      });
+
+      expect(headerOf(request, 'authorization')).toBe('Bearer abc');
+    });
+  });
+
+  describe('ApiKeyAuth', () => {
+    test('should send the key in x-api-key by default', () => {
+      const request = new ApiKeyAuth('key-123').authorize({});
+
+      expect(headerOf(request, 'x-api-key')).toBe('key-123');
+      expect(headerOf(request, 'authorization')).toBeNull();
+    });
+
+    test('should send the key in a custom header', () => {
+      const request = new ApiKeyAuth('key-123', { header: 'x-mondo-key' }).authorize({});
+
+      expect(headerOf(request, 'x-mondo-key')).toBe('key-123');
+    });
+  });
+
+  describe('TokenProviderAuth', () => {
+    test('should ask the provider for a token on each request', async () => {
+      const provider = vi.fn().mockResolvedValueOnce('one').mockResolvedValueOnce('two');
+      const auth = new TokenProviderAuth(provider);
+
+      expect(headerOf(await auth.authorize({}), 'authorization')).toBe('Bearer one');
+      expect(headerOf(await auth.authorize({}), 'authorization')).toBe('Bearer two');
+      expect(provider).toHaveBeenCalledWith({ forceRefresh: false });
+    });
+
+    test('should force a refresh once after refresh is called', async () => {
+      const provider = vi.fn().mockResolvedValue('token');
+      const auth = new TokenProviderAuth(provider);
+
+      await auth.refresh();
+      await auth.authorize({});
+      await auth.authorize({});
+
+      expect(provider).toHaveBeenNthCalledWith(1, { forceRefresh: true });
+      expect(provider).toHaveBeenNthCalledWith(2, { forceRefresh: false });
+    });
+
+    test('should accept a synchronous provider', async () => {
+      const auth = new TokenProviderAuth(() => 'sync-token');
+
+      expect(headerOf(await auth.authorize({}), 'authorization')).toBe(
+        'Bearer sync-token'
+      );
+    });
+  });
+
+  describe('AuthStrategySchema', () => {
+    test('should accept objects implementing authorize', () => {
+      expect(AuthStrategySchema.safeParse(new BearerTokenAuth('a')).success).toBe(true);
+      expect(AuthStrategySchema.safeParse({ authorize: (r: RequestInit) => r }).success).toBe(
+        true
+      );
+    });
+
+    test('should reject anything else', () => {
+      expect(AuthStrategySchema.safeParse('token').success).toBe(false);
+      expect(AuthStrategySchema.safeParse({}).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import type { Transport } from "../resources/transport.js";
+
+/**
+ * Passed by the client along with each request to authorize
+ */
+export type AuthContext = {
+	/**
+	 * Transport configured on the client, for strategies that send requests of
+	 * their own
+	 */
+	fetch?: Transport;
+};
+
+/**
+ * Applies credentials to outgoing requests
+ */
+export type AuthStrategy = {
+	authorize(
+		request: RequestInit,
+		context?: AuthContext,
+	): RequestInit | Promise<RequestInit>;
+
+	/**
+	 * Discards cached credentials so the next request obtains fresh ones
+	 */
+	refresh?(): Promise<void>;
+};
+
+export const AuthStrategySchema = z.custom<AuthStrategy>(
+	(value) =>
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as AuthStrategy).authorize === "function",
+	{ message: "auth must implement authorize" },
+);
+
+export function withHeader(
+	request: RequestInit,
+	name: string,
+	value: string,
+): RequestInit {
+	const headers = new Headers(request.headers);
+	headers.set(name, value);
+
+	return { ...request, headers };
+}
+
+/**
+ * Sends a static token using the Bearer scheme
+ */
+export class BearerTokenAuth implements AuthStrategy {
+	public constructor(private readonly token: string) {}
+
+	public authorize(request: RequestInit): RequestInit {
+		return withHeader(request, "authorization", `Bearer ${this.token}`);
+	}
+}
+
+export type ApiKeyAuthOptions = {
+	/**
+	 * Header carrying the key (defaults to `x-api-key`)
+	 */
+	header?: string;
+};
+
+/**
+ * Sends a static API key in a header
+ */
+export class ApiKeyAuth implements AuthStrategy {
+	private readonly header: string;
+
+	public constructor(
+		private readonly key: string,
+		options?: ApiKeyAuthOptions,
+	) {
+		this.header = options?.header ?? "x-api-key";
+	}
+
+	public authorize(request: RequestInit): RequestInit {
+		return withHeader(request, this.header, this.key);
+	}
+}
+
+export type TokenProvider = (context: {
+	forceRefresh: boolean;
+}) => string | Promise<string>;
+
+/**
+ * Asks a callback for a token on every request.  After a 401 the next call is
+ * made with `forceRefresh` so the provider can bypass its own cache.
+ */
+export class TokenProviderAuth implements AuthStrategy {
+	private forceRefresh = false;
+
+	public constructor(private readonly provider: TokenProvider) {}
+
+	public async authorize(request: RequestInit): Promise<RequestInit> {
+		const forceRefresh = this.forceRefresh;
+		this.forceRefresh = false;
+
+		const token = await this.provider({ forceRefresh });
+
+		return withHeader(request, "authorization", `Bearer ${token}`);
+	}
+
+	public async refresh(): Promise<void> {
+		this.forceRefresh = true;
+	}
+}
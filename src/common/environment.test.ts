@@ -0,0 +1,253 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import {
+  configFromEnv,
+  Environment,
+  EnvironmentHost,
+  EnvironmentVariable,
+} from './environment.js';
+import { MondoAppConnect } from './init.js';
+
+describe('Common - Environment', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'app-connect-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function write(name: string, contents: string): string {
+    const file = join(directory, name);
+    writeFileSync(file, contents);
+    return file;
+  }
+
+  describe('Named environments', () => {
+    test('should default to the production host', () => {
+      const instance = new MondoAppConnect({ accessToken: 'token' });
+
+      expect(instance.config.environment).toBe(Environment.PRODUCTION);
+      expect(instance.config.host.toString()).toBe(
+        new URL(EnvironmentHost.production).toString()
+      );
+    });
+
+    test('should resolve the host of a named environment', () => {
+      const instance = new MondoAppConnect({
+        accessToken: 'token',
+        environment: Environment.PRODUCTION,
+      });
+
+      expect(instance.config.host.toString()).toBe(
+        new URL(EnvironmentHost.production).toString()
+      );
+    });
+
+    test('should prefer an explicit host over the environment', () => {
+      const instance = new MondoAppConnect({
+        accessToken: 'token',
+        environment: Environment.PRODUCTION,
+        host: 'https://api.example.com',
+      });
+
+      expect(instance.config.host.toString()).toBe('https://api.example.com/');
+    });
+
+    test('should require a host for the custom environment', () => {
+      expect(
+        () =>
+          new MondoAppConnect({
+            accessToken: 'token',
+            environment: Environment.CUSTOM,
+          })
+      ).toThrow('host is required for the custom environment');
+    });
+
+    test('should reject unknown environments', () => {
+      expect(
+        () =>
+          new MondoAppConnect({
+            accessToken: 'token',
+            environment: 'staging' as any,
+          })
+      ).toThrow('Invalid configuration:');
+    });
+  });
+
+  describe('configFromEnv', () => {
+    test('should read the token, host and environment variables', () => {
+      const config = configFromEnv({
+        env: {
+          [EnvironmentVariable.ACCESS_TOKEN]: 'env-token',
+          [EnvironmentVariable.HOST]: 'https://api.example.com',
+          [EnvironmentVariable.ENVIRONMENT]: 'custom',
+        },
+      });
+
+      expect(config).toEqual({
+        accessToken: 'env-token',
+        host: 'https://api.example.com',
+        environment: 'custom',
+      });
+    });
+
+    test('should name the missing access token variable', () => {
+      expect(() => configFromEnv({ env: {} })).toThrow(
+        'Invalid configuration: missing environment variable MONDO_APP_CONNECT_ACCESS_TOKEN'
+      );
+    });
+
+    test('should name the missing host variable for the custom environment', () => {
+      expect(() =>
+        configFromEnv({
+          env: {
+            [EnvironmentVariable.ACCESS_TOKEN]: 'token',
+            [EnvironmentVariable.ENVIRONMENT]: 'custom',
+          },
+        })
+      ).toThrow('missing environment variable MONDO_APP_CONNECT_HOST');
+    });
+
+    test('should name the variable holding an unknown environment', () => {
+      expect(() =>
+        configFromEnv({
+          env: {
+            [EnvironmentVariable.ACCESS_TOKEN]: 'token',
+            [EnvironmentVariable.ENVIRONMENT]: 'qa',
+          },
+        })
+      ).toThrow('MONDO_APP_CONNECT_ENVIRONMENT must be one of');
+    });
+
+    test('should treat empty variables as unset', () => {
+      expect(() =>
+        configFromEnv({ env: { [EnvironmentVariable.ACCESS_TOKEN]: '  ' } })
+      ).toThrow('MONDO_APP_CONNECT_ACCESS_TOKEN');
+    });
+
+    test('should not require a token when an auth strategy is provided', () => {
+      const auth = { authorize: (request: RequestInit) => request };
+      const config = configFromEnv({ env: {}, config: { auth } });
+
+      expect(config.auth).toBe(auth);
+      expect(config.accessToken).toBeUndefined();
+    });
+
+    test('should prefer explicit settings over variables', () => {
+      const config = configFromEnv({
+        env: { [EnvironmentVariable.ACCESS_TOKEN]: 'env-token' },
+        config: { accessToken: 'explicit-token', logLevel: 'debug' },
+      });
+
+      expect(config.accessToken).toBe('explicit-token');
+      expect(config.logLevel).toBe('debug');
+    });
+  });
+
+  describe('Profile files', () => {
+    test('should read a named profile from a JSON file', () => {
+      const file = write(
+        'profiles.json',
+        JSON.stringify({
+          default: { accessToken: 'default-token' },
+          staging: {
+            access_token: 'staging-token',
+            environment: 'custom',
+            host: 'https://staging.example.com',
+          },
+        })
+      );
+
+      const config = configFromEnv({ env: {}, file, profile: 'staging' });
+
+      expect(config.accessToken).toBe('staging-token');
+      expect(config.environment).toBe('custom');
+      expect(config.host).toBe('https://staging.example.com');
+    });
+
+    test('should read a named profile from an INI file', () => {
+      const file = write(
+        'profiles.ini',
+        [
+          '# shared credentials',
+          'access_token = default-token',
+          '',
+          '[sandbox]',
+          'access_token = "sandbox-token"',
+          'environment = production',
+        ].join('\n')
+      );
+
+      expect(configFromEnv({ env: {}, file }).accessToken).toBe('default-token');
+      expect(
+        configFromEnv({
+          env: {
+            [EnvironmentVariable.CONFIG_FILE]: file,
+            [EnvironmentVariable.PROFILE]: 'sandbox',
+          },
+        })
+      ).toEqual({
+        accessToken: 'sandbox-token',
+        environment: 'production',
+        host: undefined,
+      });
+    });
+
+    test('should prefer variables over the profile', () => {
+      const file = write(
+        'override.json',
+        JSON.stringify({ default: { accessToken: 'file-token' } })
+      );
+
+      const config = configFromEnv({
+        env: { [EnvironmentVariable.ACCESS_TOKEN]: 'env-token' },
+        file,
+      });
+
+      expect(config.accessToken).toBe('env-token');
+    });
+
+    test('should mention the profile when the token is missing', () => {
+      const file = write('empty.json', JSON.stringify({ default: {} }));
+
+      expect(() => configFromEnv({ env: {}, file })).toThrow(
+        `missing environment variable MONDO_APP_CONNECT_ACCESS_TOKEN (or "access_token" in profile "default" of ${file})`
+      );
+    });
+
+    test('should throw when a requested profile does not exist', () => {
+      const file = write('single.json', JSON.stringify({ default: {} }));
+
+      expect(() => configFromEnv({ env: {}, file, profile: 'missing' })).toThrow(
+        'profile "missing" not found'
+      );
+    });
+
+    test('should throw when the file cannot be read', () => {
+      expect(() =>
+        configFromEnv({ env: {}, file: join(directory, 'nope.json') })
+      ).toThrow('Invalid configuration: unable to read');
+    });
+  });
+
+  describe('MondoAppConnect.fromEnv', () => {
+    test('should create a client from environment variables', () => {
+      const instance = MondoAppConnect.fromEnv({
+        env: {
+          [EnvironmentVariable.ACCESS_TOKEN]: 'env-token',
+          [EnvironmentVariable.ENVIRONMENT]: 'custom',
+          [EnvironmentVariable.HOST]: 'https://api.example.com',
+        },
+      });
+
+      expect(instance).toBeInstanceOf(MondoAppConnect);
+      expect(instance.config.accessToken).toBe('env-token');
+      expect(instance.config.host.toString()).toBe('https://api.example.com/');
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { z } from "zod";
+import type { ConfigProps } from "./init.js";
+
+/**
+ * Named environments.  Staging and sandbox are not offered yet: their hosts
+ * are still to be confirmed, so reach them with `custom` and an explicit host.
+ */
+export const Environment = {
+	PRODUCTION: "production",
+	CUSTOM: "custom",
+} as const;
+export type AnyEnvironment = (typeof Environment)[keyof typeof Environment];
+
+export const EnvironmentSchema = z.enum([
+	Environment.PRODUCTION,
+	Environment.CUSTOM,
+]);
+
+/**
+ * Hosts of the named environments; `custom` requires an explicit host
+ */
+export const EnvironmentHost: Record<
+	Exclude<AnyEnvironment, "custom">,
+	string
+> = {
+	production: "https://dxnh0yagb1.execute-api.us-east-1.amazonaws.com",
+};
+
+export const EnvironmentVariable = {
+	ACCESS_TOKEN: "MONDO_APP_CONNECT_ACCESS_TOKEN",
+	HOST: "MONDO_APP_CONNECT_HOST",
+	ENVIRONMENT: "MONDO_APP_CONNECT_ENVIRONMENT",
+	PROFILE: "MONDO_APP_CONNECT_PROFILE",
+	CONFIG_FILE: "MONDO_APP_CONNECT_CONFIG_FILE",
+} as const;
+
+const DEFAULT_PROFILE = "default";
+
+export type FromEnvOptions = {
+	/**
+	 * Variables to read from, defaults to `process.env`
+	 */
+	env?: Record<string, string | undefined>;
+	/**
+	 * JSON or INI file of named profiles, defaults to `MONDO_APP_CONNECT_CONFIG_FILE`
+	 */
+	file?: string;
+	/**
+	 * Profile to read from the file, defaults to `MONDO_APP_CONNECT_PROFILE` or "default"
+	 */
+	profile?: string;
+	/**
+	 * Settings that take precedence over the environment (auth, logger, retry, etc.)
+	 */
+	config?: Partial<ConfigProps>;
+};
+
+const ProfileSchema = z.object({
+	accessToken: z.string().optional(),
+	host: z.string().optional(),
+	environment: z.string().optional(),
+});
+type Profile = z.output<typeof ProfileSchema>;
+
+/**
+ * Builds client configuration from explicit settings, `MONDO_APP_CONNECT_*`
+ * variables and an optional profile file, in that order of precedence.
+ */
+export function configFromEnv(options: FromEnvOptions = {}): ConfigProps {
+	const env = options.env ?? process.env;
+	const overrides = options.config ?? {};
+	const file = options.file ?? variable(env, EnvironmentVariable.CONFIG_FILE);
+	const profileName =
+		options.profile ??
+		variable(env, EnvironmentVariable.PROFILE) ??
+		DEFAULT_PROFILE;
+	const profile = file ? readProfile(file, profileName) : {};
+
+	const accessToken =
+		overrides.accessToken ??
+		variable(env, EnvironmentVariable.ACCESS_TOKEN) ??
+		profile.accessToken;
+	const host =
+		overrides.host ?? variable(env, EnvironmentVariable.HOST) ?? profile.host;
+	const environment =
+		overrides.environment ??
+		variable(env, EnvironmentVariable.ENVIRONMENT) ??
+		profile.environment;
+
+	if (!accessToken && !overrides.auth) {
+		throw missing(EnvironmentVariable.ACCESS_TOKEN, file, profileName);
+	}
+
+	if (environment !== undefined) {
+		const result = EnvironmentSchema.safeParse(environment);
+
+		if (!result.success) {
+			throw new Error(
+				`Invalid configuration: ${EnvironmentVariable.ENVIRONMENT} must be one of ${EnvironmentSchema.options.join(", ")}, received "${environment}"`,
+			);
+		}
+
+		if (result.data === Environment.CUSTOM && !host) {
+			throw missing(EnvironmentVariable.HOST, file, profileName);
+		}
+	}
+
+	return {
+		...overrides,
+		accessToken,
+		host,
+		environment: environment as AnyEnvironment | undefined,
+	};
+}
+
+function variable(
+	env: Record<string, string | undefined>,
+	name: string,
+): string | undefined {
+	const value = env[name]?.trim();
+	return value ? value : undefined;
+}
+
+function missing(name: string, file: string | undefined, profile: string) {
+	const key = name.replace("MONDO_APP_CONNECT_", "").toLowerCase();
+
+	return new Error(
+		file
+			? `Invalid configuration: missing environment variable ${name} (or "${key}" in profile "${profile}" of ${file})`
+			: `Invalid configuration: missing environment variable ${name}`,
+	);
+}
+
+function readProfile(file: string, name: string): Profile {
+	let contents: string;
+
+	try {
+		contents = readFileSync(file, "utf8");
+	} catch (error) {
+		throw new Error(`Invalid configuration: unable to read ${file}`, {
+			cause: error,
+		});
+	}
+
+	const profiles = parseProfiles(file, contents);
+	const profile = profiles[name];
+
+	if (!profile) {
+		if (name === DEFAULT_PROFILE) {
+			return {};
+		}
+
+		throw new Error(
+			`Invalid configuration: profile "${name}" not found in ${file}`,
+		);
+	}
+
+	const result = ProfileSchema.safeParse(normalizeKeys(profile));
+
+	if (!result.success) {
+		throw new Error(
+			`Invalid configuration: profile "${name}" in ${file}: ${result.error.message}`,
+		);
+	}
+
+	return result.data;
+}
+
+function parseProfiles(
+	file: string,
+	contents: string,
+): Record<string, Record<string, unknown>> {
+	if (extname(file) === ".json" || contents.trimStart().startsWith("{")) {
+		try {
+			return JSON.parse(contents);
+		} catch (error) {
+			throw new Error(`Invalid configuration: ${file} is not valid JSON`, {
+				cause: error,
+			});
+		}
+	}
+
+	return parseIni(contents);
+}
+
+/**
+ * Minimal INI reader: `[profile]` sections of `key = value` pairs.  Keys
+ * outside of a section belong to the default profile.
+ */
+function parseIni(contents: string): Record<string, Record<string, string>> {
+	const profiles: Record<string, Record<string, string>> = {};
+	let section = DEFAULT_PROFILE;
+
+	for (const raw of contents.split(/\r?\n/)) {
+		const line = raw.trim();
+
+		if (!line || line.startsWith("#") || line.startsWith(";")) {
+			continue;
+		}
+
+		const header = line.match(/^\[\s*(.+?)\s*\]$/);
+
+		if (header) {
+			section = header[1];
+			continue;
+		}
+
+		const separator = line.indexOf("=");
+
+		if (separator === -1) {
+			continue;
+		}
+
+		const key = line.slice(0, separator).trim();
+		const value = line
+			.slice(separator + 1)
+			.trim()
+			.replace(/^(["'])(.*)\1$/, "$2");
+
+		profiles[section] ??= {};
+		profiles[section][key] = value;
+	}
+
+	return profiles;
+}
+
+/**
+ * Accepts `access_token`, `access-token` and `accessToken` alike
+ */
+function normalizeKeys(profile: Record<string, unknown>) {
+	return Object.fromEntries(
+		Object.entries(profile).map(([key, value]) => [
+			key.replace(/[_-]([a-z])/g, (_, letter: string) => letter.toUpperCase()),
+			value,
+		]),
+	);
+}
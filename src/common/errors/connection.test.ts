@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'vitest';
+import { AmbiguousConnectionError } from './connection.js';
+import { HttpError } from './http.js';
+
+describe('Common Errors - Connection', () => {
+  test('should describe an ambiguous one-join', () => {
+    const error = new AmbiguousConnectionError('Too many targets', {
+      ids: ['a', 'b'],
+    });
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.name).toBe('AmbiguousConnectionError');
+    expect(error.statusCode).toBe(409);
+    expect(error.type).toBe('ambiguous_connection');
+    expect(error.ids).toEqual(['a', 'b']);
+    expect(error.isRetryable).toBe(false);
+    expect(error.toJSON()).toEqual(expect.objectContaining({ ids: ['a', 'b'] }));
+  });
+});
@@ -0,0 +1,24 @@
+import { HttpError, type HttpErrorOptions } from "./http.js";
+
+export type AmbiguousConnectionErrorOptions = HttpErrorOptions & {
+	ids: string[];
+};
+
+/**
+ * A source configured with a `one` join is connected to more than one target
+ */
+export class AmbiguousConnectionError extends HttpError {
+	readonly ids: string[];
+
+	public constructor(
+		message: string,
+		options: AmbiguousConnectionErrorOptions,
+	) {
+		super(message, {
+			...options,
+			statusCode: options.statusCode ?? 409,
+			type: options.type || "ambiguous_connection",
+		});
+		this.ids = options.ids;
+	}
+}
@@ -36,8 +36,8 @@ describe('Common Errors - HTTP', () => {
       expect(error.message).toBe('Resource not found');
       expect(error.statusCode).toBe(404);
       expect(error.type).toBe('NotFound');
-      expect(error.trace).toBeUndefined(); // trace is not assigned in constructor
-      expect(error.body).toBeUndefined(); // body is not assigned in constructor
+      expect(error.trace).toBe('trace-123');
+      expect(error.body).toEqual({ resource: 'user' });
     });
 
     test('should handle partial options', () => {
@@ -82,5 +82,63 @@ describe('Common Errors - HTTP', () => {
         expect(error.isAuthorizationError).toBe(false);
       });
     });
+
+    describe('context', () => {
+      test('should keep the request and cause', () => {
+        const cause = new TypeError('fetch failed');
+        const error = new HttpError('Failed', {
+          request: { method: 'GET', url: 'https://api.example.com/v1/apps' },
+          cause,
+        });
+
+        expect(error.request).toEqual({
+          method: 'GET',
+          url: 'https://api.example.com/v1/apps',
+        });
+        expect(error.cause).toBe(cause);
+      });
+
+      test('should name the error after its class', () => {
+        class CustomError extends HttpError {}
+
+        expect(new HttpError().name).toBe('HttpError');
+        expect(new CustomError().name).toBe('CustomError');
+      });
+    });
+
+    describe('toJSON', () => {
+      test('should serialize every field', () => {
+        const error = new HttpError('Not found', {
+          statusCode: 404,
+          type: 'not_found',
+          trace: 'trace-123',
+          body: { id: 'app-1' },
+          request: { method: 'GET', url: 'https://api.example.com/v1/apps/1' },
+        });
+
+        expect(JSON.parse(JSON.stringify(error))).toEqual({
+          name: 'HttpError',
+          message: 'Not found',
+          statusCode: 404,
+          type: 'not_found',
+          trace: 'trace-123',
+          body: { id: 'app-1' },
+          request: { method: 'GET', url: 'https://api.example.com/v1/apps/1' },
+        });
+      });
+
+      test('should serialize the cause chain', () => {
+        const root = new Error('socket hang up');
+        const error = new HttpError('Outer', {
+          cause: new HttpError('Inner', { cause: root }),
+        });
+
+        expect(error.toJSON().cause).toMatchObject({
+          name: 'HttpError',
+          message: 'Inner',
+          cause: { name: 'Error', message: 'socket hang up' },
+        });
+      });
+    });
   });
 });
@@ -1,29 +1,91 @@
+/**
+ * The request that failed, as sent to the server
+ */
+export type HttpErrorRequest = {
+	method: string;
+	url: string;
+};
+
 export type HttpErrorOptions = {
 	statusCode?: number;
 	type?: string;
 	trace?: string;
 	body?: {
-		[key: string]: string;
+		[key: string]: unknown;
 	};
+	/**
+	 * Truncated response body, when it could not be parsed as JSON
+	 */
+	rawBody?: string;
+	request?: HttpErrorRequest;
+	cause?: unknown;
 };
 
+/**
+ * Statuses worth sending again, after a delay
+ */
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
 export class HttpError extends Error {
 	readonly statusCode: number;
 	readonly type: string;
 	readonly trace?: HttpErrorOptions["trace"];
 	readonly body?: HttpErrorOptions["body"];
+	readonly rawBody?: HttpErrorOptions["rawBody"];
+	readonly request?: HttpErrorOptions["request"];
 
 	public constructor(
 		message = "An unknown error occurred. Please try the operation again.",
 		options?: HttpErrorOptions,
 	) {
-		super(message);
+		super(
+			message,
+			options?.cause !== undefined ? { cause: options.cause } : undefined,
+		);
 
+		this.name = new.target.name;
 		this.statusCode = options?.statusCode || 500;
 		this.type = options?.type || "Unknown";
+		this.trace = options?.trace;
+		this.body = options?.body;
+		this.rawBody = options?.rawBody;
+		this.request = options?.request;
 	}
 
 	get isAuthorizationError(): boolean {
 		return [401, 403].includes(this.statusCode);
 	}
+
+	get isRetryable(): boolean {
+		return RETRYABLE_STATUSES.includes(this.statusCode);
+	}
+
+	/**
+	 * A plain representation for structured logs and failure records.
+	 * Subclass fields (validation fields, retry delays, etc.) are included.
+	 */
+	public toJSON(): Record<string, unknown> {
+		return {
+			name: this.name,
+			message: this.message,
+			...Object.fromEntries(Object.entries(this)),
+			cause: serializeCause(this.cause),
+		};
+	}
+}
+
+function serializeCause(cause: unknown): unknown {
+	if (cause instanceof HttpError) {
+		return cause.toJSON();
+	}
+
+	if (cause instanceof Error) {
+		return {
+			name: cause.name,
+			message: cause.message,
+			cause: serializeCause(cause.cause),
+		};
+	}
+
+	return cause;
 }
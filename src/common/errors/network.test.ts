@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import { HttpError } from './http.js';
+import { NetworkError, TimeoutError } from './network.js';
+
+describe('Common Errors - Network', () => {
+  describe('NetworkError', () => {
+    test('should create network error with defaults', () => {
+      const error = new NetworkError();
+
+      expect(error.message).toBe(
+        'The request could not reach the server. Please try the operation again.'
+      );
+      expect(error.type).toBe('network');
+      expect(error).toBeInstanceOf(HttpError);
+    });
+
+    test('should be retryable', () => {
+      expect(new NetworkError('fetch failed').isRetryable).toBe(true);
+    });
+  });
+
+  describe('TimeoutError', () => {
+    test('should create timeout error with defaults', () => {
+      const error = new TimeoutError();
+
+      expect(error.message).toBe(
+        'The request timed out. Please try the operation again.'
+      );
+      expect(error.statusCode).toBe(408);
+      expect(error.type).toBe('timeout');
+      expect(error.timeoutMs).toBeUndefined();
+    });
+
+    test('should keep the timeout duration', () => {
+      const error = new TimeoutError('Too slow', { timeoutMs: 2_000 });
+
+      expect(error.message).toBe('Too slow');
+      expect(error.timeoutMs).toBe(2_000);
+    });
+
+    test('should inherit from HttpError', () => {
+      const error = new TimeoutError();
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.isAuthorizationError).toBe(false);
+    });
+
+    test('should be retryable', () => {
+      expect(new TimeoutError().isRetryable).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { HttpError, type HttpErrorOptions } from "./http.js";
+
+/**
+ * The request never received a response (connection refused, DNS failure,
+ * socket reset, etc.)
+ */
+export class NetworkError extends HttpError {
+	public constructor(
+		message = "The request could not reach the server. Please try the operation again.",
+		options?: HttpErrorOptions,
+	) {
+		super(message, { ...options, type: options?.type || "network" });
+	}
+
+	override get isRetryable(): boolean {
+		return true;
+	}
+}
+
+export type TimeoutErrorOptions = HttpErrorOptions & {
+	timeoutMs?: number;
+};
+
+export class TimeoutError extends HttpError {
+	readonly timeoutMs?: number;
+
+	public constructor(
+		message = "The request timed out. Please try the operation again.",
+		options?: TimeoutErrorOptions,
+	) {
+		super(message, { statusCode: 408, type: "timeout", ...options });
+		this.timeoutMs = options?.timeoutMs;
+	}
+
+	override get isRetryable(): boolean {
+		return true;
+	}
+}
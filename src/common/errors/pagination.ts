@@ -0,0 +1,29 @@
+import type { PaginationCheckpoint } from "../resources/paginator.js";
+import { HttpError, type HttpErrorOptions } from "./http.js";
+
+export type PaginationTokenExpiredErrorOptions = HttpErrorOptions & {
+	checkpoint: PaginationCheckpoint;
+};
+
+/**
+ * The server rejected the `nextToken` of a listing, typically because it
+ * expired.  The listing has to be restarted from the beginning.
+ */
+export class PaginationTokenExpiredError extends HttpError {
+	readonly checkpoint: PaginationCheckpoint;
+
+	public constructor(
+		message = "The pagination token was rejected; restart the listing from the beginning.",
+		options: PaginationTokenExpiredErrorOptions,
+	) {
+		super(message, {
+			...options,
+			type: options.type || "pagination_token_expired",
+		});
+		this.checkpoint = options.checkpoint;
+	}
+
+	override get isRetryable(): boolean {
+		return false;
+	}
+}
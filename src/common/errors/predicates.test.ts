@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+import { HttpError } from './http.js';
+import { NetworkError } from './network.js';
+import {
+  isAuthorizationError,
+  isHttpError,
+  isRetryable,
+} from './predicates.js';
+import { AuthenticationError, NotFoundError } from './status.js';
+
+describe('Common Errors - Predicates', () => {
+  test('isHttpError should narrow HTTP errors', () => {
+    expect(isHttpError(new NotFoundError())).toBe(true);
+    expect(isHttpError(new Error('plain'))).toBe(false);
+    expect(isHttpError(undefined)).toBe(false);
+  });
+
+  test('isRetryable should follow the error status', () => {
+    expect(isRetryable(new HttpError('Busy', { statusCode: 503 }))).toBe(true);
+    expect(isRetryable(new HttpError('Limited', { statusCode: 429 }))).toBe(
+      true
+    );
+    expect(isRetryable(new NetworkError())).toBe(true);
+    expect(isRetryable(new NotFoundError())).toBe(false);
+    expect(isRetryable(new Error('plain'))).toBe(false);
+  });
+
+  test('isAuthorizationError should accept any value', () => {
+    expect(isAuthorizationError(new AuthenticationError())).toBe(true);
+    expect(isAuthorizationError(new HttpError())).toBe(false);
+    expect(isAuthorizationError('nope')).toBe(false);
+  });
+});
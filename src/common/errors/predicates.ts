@@ -0,0 +1,16 @@
+import { HttpError } from "./http.js";
+
+export function isHttpError(error: unknown): error is HttpError {
+	return error instanceof HttpError;
+}
+
+/**
+ * Whether the failed operation may succeed if sent again
+ */
+export function isRetryable(error: unknown): boolean {
+	return isHttpError(error) && error.isRetryable;
+}
+
+export function isAuthorizationError(error: unknown): error is HttpError {
+	return isHttpError(error) && error.isAuthorizationError;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'vitest';
+import { HttpError } from './http.js';
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  ServerError,
+} from './status.js';
+
+describe('Common Errors - Status', () => {
+  test.each([
+    [AuthenticationError, 401, 'authorization'],
+    [PermissionDeniedError, 403, 'authorization'],
+    [NotFoundError, 404, 'not_found'],
+    [ConflictError, 409, 'conflict'],
+    [RateLimitError, 429, 'rate_limit'],
+    [ServerError, 500, 'server'],
+  ])('%o should default its status and type', (ErrorClass, status, type) => {
+    const error = new ErrorClass();
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.statusCode).toBe(status);
+    expect(error.type).toBe(type);
+  });
+
+  test('should keep the type returned by the server', () => {
+    const error = new NotFoundError('Missing', { type: 'app_not_found' });
+
+    expect(error.message).toBe('Missing');
+    expect(error.type).toBe('app_not_found');
+  });
+
+  test('should keep isAuthorizationError working', () => {
+    expect(new AuthenticationError().isAuthorizationError).toBe(true);
+    expect(new PermissionDeniedError().isAuthorizationError).toBe(true);
+    expect(new NotFoundError().isAuthorizationError).toBe(false);
+  });
+
+  test('should keep the status of server errors', () => {
+    const error = new ServerError('Unavailable', { statusCode: 503 });
+
+    expect(error.statusCode).toBe(503);
+    expect(error.isRetryable).toBe(true);
+    expect(new ServerError().isRetryable).toBe(false);
+  });
+
+  test('should keep the retry-after delay of rate limit errors', () => {
+    const error = new RateLimitError(undefined, { retryAfterMs: 1_500 });
+
+    expect(error.retryAfterMs).toBe(1_500);
+    expect(error.isRetryable).toBe(true);
+  });
+});
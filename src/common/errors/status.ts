@@ -0,0 +1,95 @@
+import { HttpError, type HttpErrorOptions } from "./http.js";
+
+/**
+ * 401 - the credentials are missing, invalid or expired
+ */
+export class AuthenticationError extends HttpError {
+	public constructor(message = "Unauthorized", options?: HttpErrorOptions) {
+		super(message, {
+			...options,
+			statusCode: 401,
+			type: options?.type || "authorization",
+		});
+	}
+}
+
+/**
+ * 403 - the credentials are valid but lack access to the resource
+ */
+export class PermissionDeniedError extends HttpError {
+	public constructor(message = "Forbidden", options?: HttpErrorOptions) {
+		super(message, {
+			...options,
+			statusCode: 403,
+			type: options?.type || "authorization",
+		});
+	}
+}
+
+/**
+ * 404 - the resource does not exist
+ */
+export class NotFoundError extends HttpError {
+	public constructor(message = "Not Found", options?: HttpErrorOptions) {
+		super(message, {
+			...options,
+			statusCode: 404,
+			type: options?.type || "not_found",
+		});
+	}
+}
+
+/**
+ * 409 - the request conflicts with the current state of the resource
+ */
+export class ConflictError extends HttpError {
+	public constructor(message = "Conflict", options?: HttpErrorOptions) {
+		super(message, {
+			...options,
+			statusCode: 409,
+			type: options?.type || "conflict",
+		});
+	}
+}
+
+export type RateLimitErrorOptions = HttpErrorOptions & {
+	/**
+	 * Delay requested by the server through the `Retry-After` header
+	 */
+	retryAfterMs?: number;
+};
+
+/**
+ * 429 - too many requests
+ */
+export class RateLimitError extends HttpError {
+	readonly retryAfterMs?: number;
+
+	public constructor(
+		message = "Too Many Requests",
+		options?: RateLimitErrorOptions,
+	) {
+		super(message, {
+			...options,
+			statusCode: 429,
+			type: options?.type || "rate_limit",
+		});
+		this.retryAfterMs = options?.retryAfterMs;
+	}
+}
+
+/**
+ * 5xx - the server failed to handle the request
+ */
+export class ServerError extends HttpError {
+	public constructor(
+		message = "An unknown error occurred. Please try the operation again.",
+		options?: HttpErrorOptions,
+	) {
+		super(message, {
+			...options,
+			statusCode: options?.statusCode ?? 500,
+			type: options?.type || "server",
+		});
+	}
+}
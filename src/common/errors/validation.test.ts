@@ -56,8 +56,8 @@ describe('Common Errors - Validation', () => {
       expect(error.message).toBe('Unprocessable entity');
       expect(error.statusCode).toBe(422);
       expect(error.type).toBe('UnprocessableEntity');
-      expect(error.trace).toBeUndefined(); // trace is not assigned in HttpError constructor
-      expect(error.body).toBeUndefined(); // body is not assigned in HttpError constructor
+      expect(error.trace).toBe('validation-trace-456');
+      expect(error.body).toEqual({ request: 'data' });
       expect(error.fields).toEqual({ username: 'Username already exists' });
     });
 
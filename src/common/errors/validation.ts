@@ -7,8 +7,54 @@ export type ValidationErrorOptions = HttpErrorOptions & {
 export class ValidationError extends HttpError {
 	readonly fields: ValidationErrorOptions["fields"];
 
-	public constructor(message: string, options: ValidationErrorOptions) {
+	public constructor(
+		message: string | undefined,
+		options: ValidationErrorOptions,
+	) {
 		super(message, options);
 		this.fields = options?.fields;
 	}
 }
+
+export type ResponseValidationIssue = {
+	/**
+	 * Dot separated path of the offending value, e.g. `items.0.status`
+	 */
+	path: string;
+	message: string;
+	value: unknown;
+};
+
+export type ResponseValidationErrorOptions = HttpErrorOptions & {
+	endpoint?: string;
+	issues: ResponseValidationIssue[];
+	data: unknown;
+};
+
+/**
+ * A successful response did not match the expected schema, most likely
+ * because the server contract changed.  Sending the request again will not
+ * help.
+ */
+export class ResponseValidationError extends HttpError {
+	readonly endpoint?: string;
+	readonly issues: ResponseValidationIssue[];
+	readonly data: unknown;
+
+	public constructor(
+		message: string | undefined,
+		options: ResponseValidationErrorOptions,
+	) {
+		super(message, {
+			...options,
+			type: options.type || "response_validation",
+		});
+		this.endpoint = options.endpoint;
+		this.issues = options.issues;
+		this.data = options.data;
+	}
+
+	get paths(): string[] {
+		return this.issues.map((issue) => issue.path);
+	}
+}
@@ -328,7 +328,7 @@ describe('Common - Index Module (index.ts)', () => {
   });
 
   describe('integration with other modules', () => {
-    test('should work with MondoAppConnect instance', () => {
+    test('should work with MondoAppConnect instance', async () => {
       const config = TestDataFactory.validSdkConfig();
       const instance = new commonModule(config);
 
@@ -342,7 +342,7 @@ describe('Common - Index Module (index.ts)', () => {
         headers: defaultRequestHeaders(),
       };
 
-      const authorizedRequest = authorizer(request);
+      const authorizedRequest = await authorizer(request);
       expect(authorizedRequest.headers).toBeInstanceOf(Headers);
     });
 
@@ -1,5 +1,66 @@
 import { MondoAppConnect } from "./init.js";
 
+export {
+	ClientCredentialsAuth,
+	type ClientCredentialsProps,
+} from "./auth/client-credentials.js";
+export {
+	ApiKeyAuth,
+	type ApiKeyAuthOptions,
+	type AuthContext,
+	type AuthStrategy,
+	BearerTokenAuth,
+	type TokenProvider,
+	TokenProviderAuth,
+} from "./auth/strategies.js";
+export {
+	type AnyEnvironment,
+	configFromEnv,
+	Environment,
+	EnvironmentHost,
+	EnvironmentVariable,
+	type FromEnvOptions,
+} from "./environment.js";
+export {
+	AmbiguousConnectionError,
+	type AmbiguousConnectionErrorOptions,
+} from "./errors/connection.js";
+export {
+	HttpError,
+	type HttpErrorOptions,
+	type HttpErrorRequest,
+} from "./errors/http.js";
+export {
+	PaginationTokenExpiredError,
+	type PaginationTokenExpiredErrorOptions,
+} from "./errors/pagination.js";
+export {
+	NetworkError,
+	TimeoutError,
+	type TimeoutErrorOptions,
+} from "./errors/network.js";
+export {
+	isAuthorizationError,
+	isHttpError,
+	isRetryable,
+} from "./errors/predicates.js";
+export {
+	AuthenticationError,
+	ConflictError,
+	NotFoundError,
+	PermissionDeniedError,
+	RateLimitError,
+	type RateLimitErrorOptions,
+	ServerError,
+} from "./errors/status.js";
+export {
+	ResponseValidationError,
+	type ResponseValidationErrorOptions,
+	type ResponseValidationIssue,
+	ValidationError,
+	type ValidationErrorOptions,
+} from "./errors/validation.js";
+
 export {
 	createHost,
 	type Config,
@@ -7,14 +68,67 @@ export {
 	type Host,
 	type HostProps,
 } from "./init.js";
+export {
+	type AnyLogLevel,
+	ClientLogger,
+	type LogFields,
+	type Logger,
+	LogLevel,
+} from "./logger.js";
+export type {
+	Authorization,
+	Authorizer,
+} from "./resources/authorization.js";
+export type {
+	BulkFailed,
+	BulkOptions,
+	BulkOutcome,
+	BulkProgress,
+	BulkReport,
+	BulkSkipped,
+	BulkSucceeded,
+} from "./resources/bulk.js";
+export {
+	type AnyEnsureOutcome,
+	type EnsureDiff,
+	EnsureOutcome,
+	type EnsureResult,
+} from "./resources/ensure.js";
+export type {
+	Middleware,
+	MiddlewareRequest,
+} from "./resources/middleware.js";
+export type {
+	OperationOptions,
+	RequestOptions,
+} from "./resources/operations.js";
+export {
+	type PageFetcher,
+	type PageHook,
+	type PaginationCheckpoint,
+	Paginator,
+	type PaginatorContext,
+	type ToArrayOptions,
+} from "./resources/paginator.js";
+export type {
+	RetryAttempt,
+	RetryPolicy,
+	RetryPolicyProps,
+} from "./resources/retry.js";
+export type { Transport } from "./resources/transport.js";
 export {
 	defaultMutationRequestHeaders,
 	defaultRequestHeaders,
 	parseEgressSchema,
+	type ParseOptions,
 	parseIngressSchema,
 	responseToHttpError,
 	toHttpError,
 } from "./resources/utils.js";
+export {
+	type AnyResponseValidation,
+	ResponseValidation,
+} from "./resources/validation.js";
 export * from "./schema/schema.js";
 
 export default MondoAppConnect;
@@ -1,4 +1,13 @@
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { AppResources } from '../apps/resources.js';
+import { ConfigurationResources } from '../configurations/resources.js';
+import { ConnectionResources } from '../connections/resources.js';
+import { AppObjectResources } from '../objects/resources.js';
+import {
+  ApiKeyAuth,
+  BearerTokenAuth,
+  TokenProviderAuth,
+} from './auth/strategies.js';
 import { MondoAppConnect, type ConfigProps } from './init.js';
 
 // Mock console.debug to avoid noise in tests
@@ -111,7 +120,7 @@ describe('Common - Initialization (init.ts)', () => {
   });
 
   describe('authorizer function generation', () => {
-    test('should create authorizer function with access token', () => {
+    test('should create authorizer function with access token', async () => {
       const config: ConfigProps = {
         accessToken: 'test-access-token',
       };
@@ -122,7 +131,7 @@ describe('Common - Initialization (init.ts)', () => {
       expect(typeof authorizer).toBe('function');
     });
 
-    test('should apply authorization header with access token', () => {
+    test('should apply authorization header with access token', async () => {
       const config: ConfigProps = {
         accessToken: 'test-access-token',
       };
@@ -135,14 +144,14 @@ describe('Common - Initialization (init.ts)', () => {
         headers: new Headers(),
       };
 
-      const authorizedRequest = authorizer(request);
+      const authorizedRequest = await authorizer(request);
 
       expect(authorizedRequest.headers).toBeInstanceOf(Headers);
       const headers = authorizedRequest.headers as Headers;
       expect(headers.get('authorization')).toBe('test-access-token');
     });
 
-    test('should preserve existing headers when adding authorization', () => {
+    test('should preserve existing headers when adding authorization', async () => {
       const config: ConfigProps = {
         accessToken: 'test-access-token',
       };
@@ -158,7 +167,7 @@ describe('Common - Initialization (init.ts)', () => {
         }),
       };
 
-      const authorizedRequest = authorizer(request);
+      const authorizedRequest = await authorizer(request);
 
       const headers = authorizedRequest.headers as Headers;
       expect(headers.get('authorization')).toBe('test-access-token');
@@ -166,7 +175,7 @@ describe('Common - Initialization (init.ts)', () => {
       expect(headers.get('x-custom-header')).toBe('custom-value');
     });
 
-    test('should handle request with no existing headers', () => {
+    test('should handle request with no existing headers', async () => {
       const config: ConfigProps = {
         accessToken: 'test-access-token',
       };
@@ -178,14 +187,14 @@ describe('Common - Initialization (init.ts)', () => {
         method: 'GET',
       };
 
-      const authorizedRequest = authorizer(request);
+      const authorizedRequest = await authorizer(request);
 
       expect(authorizedRequest.headers).toBeInstanceOf(Headers);
       const headers = authorizedRequest.headers as Headers;
       expect(headers.get('authorization')).toBe('test-access-token');
     });
 
-    test('should handle request with headers as plain object', () => {
+    test('should handle request with headers as plain object', async () => {
       const config: ConfigProps = {
         accessToken: 'test-access-token',
       };
@@ -200,14 +209,14 @@ describe('Common - Initialization (init.ts)', () => {
         },
       };
 
-      const authorizedRequest = authorizer(request);
+      const authorizedRequest = await authorizer(request);
 
       const headers = authorizedRequest.headers as Headers;
       expect(headers.get('authorization')).toBe('test-access-token');
       expect(headers.get('content-type')).toBe('application/json');
     });
 
-    test('should return same request object with modified headers', () => {
+    test('should return same request object with modified headers', async () => {
       const config: ConfigProps = {
         accessToken: 'test-access-token',
       };
@@ -220,14 +229,14 @@ describe('Common - Initialization (init.ts)', () => {
         body: JSON.stringify({ test: 'data' }),
       };
 
-      const authorizedRequest = authorizer(request);
+      const authorizedRequest = await authorizer(request);
 
       expect(authorizedRequest.method).toBe('POST');
       expect(authorizedRequest.body).toBe(JSON.stringify({ test: 'data' }));
       expect(authorizedRequest).toBe(request); // Should be the same object
     });
 
-    test('should return identity function when no access token provided', () => {
+    test('should return identity function when no access token provided', async () => {
       // Create a mock config that bypasses validation for testing the else branch
       const instance = new MondoAppConnect({ accessToken: 'temp' });
       
@@ -240,7 +249,7 @@ describe('Common - Initialization (init.ts)', () => {
         headers: new Headers({ 'content-type': 'application/json' }),
       };
 
-      const result = authorizer(request);
+      const result = await authorizer(request);
       
       // Should return the same request object unchanged
       expect(result).toBe(request);
@@ -250,6 +259,273 @@ describe('Common - Initialization (init.ts)', () => {
     });
   });
 
+  describe('resource namespaces', () => {
+    test('should expose resource namespaces on the instance', () => {
+      const instance = new MondoAppConnect({ accessToken: 'test-access-token' });
+
+      expect(instance.apps).toBeInstanceOf(AppResources);
+      expect(instance.objects).toBeInstanceOf(AppObjectResources);
+      expect(instance.connections).toBeInstanceOf(ConnectionResources);
+      expect(instance.configurations).toBeInstanceOf(ConfigurationResources);
+    });
+
+    test('should create each namespace once and reuse it', () => {
+      const instance = new MondoAppConnect({ accessToken: 'test-access-token' });
+
+      expect(instance.apps).toBe(instance.apps);
+      expect(instance.objects).toBe(instance.objects);
+      expect(instance.connections).toBe(instance.connections);
+      expect(instance.configurations).toBe(instance.configurations);
+    });
+
+    test('should not share namespaces between instances', () => {
+      const first = new MondoAppConnect({ accessToken: 'first-token' });
+      const second = new MondoAppConnect({ accessToken: 'second-token' });
+
+      expect(first.apps).not.toBe(second.apps);
+    });
+
+    test('should send requests through the owning instance', async () => {
+      const mockFetch = vi.fn().mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ items: [] }),
+      });
+      global.fetch = mockFetch;
+
+      const instance = new MondoAppConnect({
+        accessToken: 'test-access-token',
+        host: 'https://api.example.com',
+      });
+
+      await instance.apps.listItems();
+
+      const [url, request] = mockFetch.mock.calls[0];
+      expect(String(url)).toBe('https://api.example.com/v1/apps');
+      expect((request.headers as Headers).get('authorization')).toBe(
+        'test-access-token'
+      );
+    });
+  });
+
+  describe('transport', () => {
+    test('should default to the global fetch', () => {
+      const instance = new MondoAppConnect({ accessToken: 'test-access-token' });
+
+      expect(instance.operationOptions.fetch).toBeUndefined();
+    });
+
+    test('should accept a custom fetch', () => {
+      const transport = vi.fn();
+      const instance = new MondoAppConnect({
+        accessToken: 'test-access-token',
+        fetch: transport,
+      });
+
+      expect(instance.operationOptions.fetch).toBe(transport);
+    });
+
+    test('should reject a non-function fetch', () => {
+      expect(
+        () =>
+          new MondoAppConnect({
+            accessToken: 'test-access-token',
+            fetch: 'not-a-function' as any,
+          })
+      ).toThrow('Invalid configuration:');
+    });
+
+    test('should keep transports isolated between clients', async () => {
+      const response = {
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ items: [] }),
+      };
+      const first = vi.fn().mockResolvedValue(response);
+      const second = vi.fn().mockResolvedValue(response);
+
+      await new MondoAppConnect({ accessToken: 'a', fetch: first }).apps.listItems();
+      await new MondoAppConnect({ accessToken: 'b', fetch: second }).apps.listItems();
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('middleware', () => {
+    test('should return the instance from use for chaining', () => {
+      const instance = new MondoAppConnect({ accessToken: 'test-access-token' });
+
+      expect(instance.use({})).toBe(instance);
+    });
+
+    test('should run registered middleware around resource requests', async () => {
+      const transport = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ items: [] }),
+      });
+      const onRequest = vi.fn();
+      const onResponse = vi.fn();
+
+      const instance = new MondoAppConnect({
+        accessToken: 'test-access-token',
+        fetch: transport,
+      }).use({ onRequest, onResponse });
+
+      await instance.apps.listItems();
+
+      expect(onRequest).toHaveBeenCalledTimes(1);
+      expect(onResponse).toHaveBeenCalledTimes(1);
+      const [{ request }] = onRequest.mock.calls[0];
+      expect((request.headers as Headers).get('authorization')).toBe(
+        'test-access-token'
+      );
+    });
+  });
+
+  describe('retry policy', () => {
+    test('should not retry by default', () => {
+      const instance = new MondoAppConnect({ accessToken: 'test-access-token' });
+
+      expect(instance.operationOptions.retry).toBeUndefined();
+    });
+
+    test('should apply retry policy defaults', () => {
+      const instance = new MondoAppConnect({
+        accessToken: 'test-access-token',
+        retry: { maxAttempts: 5 },
+      });
+
+      expect(instance.operationOptions.retry).toEqual(
+        expect.objectContaining({
+          maxAttempts: 5,
+          retryOn: [429, 502, 503, 504],
+          retryNonIdempotent: false,
+        })
+      );
+    });
+
+    test('should reject an invalid retry policy', () => {
+      expect(
+        () =>
+          new MondoAppConnect({
+            accessToken: 'test-access-token',
+            retry: { maxAttempts: 0 },
+          })
+      ).toThrow('Invalid configuration:');
+    });
+  });
+
+  describe('logger', () => {
+    test('should be silent by default', () => {
+      const instance = new MondoAppConnect({ accessToken: 'test-access-token' });
+
+      expect(instance.logger.level).toBe('silent');
+      expect(instance.operationOptions.logger).toBe(instance.logger);
+    });
+
+    test('should use the provided logger and level', () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const instance = new MondoAppConnect({
+        accessToken: 'test-access-token',
+        logger,
+        logLevel: 'debug',
+      });
+
+      instance.logger.debug('hello');
+
+      expect(instance.logger.isDebugEnabled).toBe(true);
+      expect(logger.debug).toHaveBeenCalledWith('hello', undefined);
+    });
+
+    test('should reject an invalid logger', () => {
+      expect(
+        () =>
+          new MondoAppConnect({
+            accessToken: 'test-access-token',
+            logger: {} as any,
+          })
+      ).toThrow('Invalid configuration:');
+    });
+  });
+
+  describe('auth strategies', () => {
+    test('should accept an auth strategy instead of an access token', async () => {
+      const instance = new MondoAppConnect({
+        auth: new BearerTokenAuth('strategy-token'),
+      });
+
+      const request = await instance.authorizer({ headers: new Headers() });
+
+      expect(new Headers(request.headers).get('authorization')).toBe(
+        'Bearer strategy-token'
+      );
+    });
+
+    test('should prefer the auth strategy over the access token', async () => {
+      const instance = new MondoAppConnect({
+        accessToken: 'raw-token',
+        auth: new ApiKeyAuth('api-key'),
+      });
+
+      const request = await instance.authorizer({});
+      const headers = new Headers(request.headers);
+
+      expect(headers.get('x-api-key')).toBe('api-key');
+      expect(headers.get('authorization')).toBeNull();
+    });
+
+    test('should expose the strategy refresh on the authorizer', async () => {
+      const provider = vi.fn().mockResolvedValue('token');
+      const instance = new MondoAppConnect({
+        auth: new TokenProviderAuth(provider),
+      });
+
+      await instance.authorizer.refresh?.();
+      await instance.authorizer({});
+
+      expect(provider).toHaveBeenCalledWith({ forceRefresh: true });
+    });
+
+    test('should replay a request with refreshed credentials after a 401', async () => {
+      const provider = vi
+        .fn()
+        .mockResolvedValueOnce('expired')
+        .mockResolvedValueOnce('fresh');
+      const transport = vi
+        .fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 401,
+          json: () => Promise.resolve({ error: 'expired_token' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ items: [] }),
+        });
+
+      const instance = new MondoAppConnect({
+        auth: new TokenProviderAuth(provider),
+        fetch: transport,
+      });
+
+      await instance.apps.listItems();
+
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(
+        (transport.mock.calls[1][1].headers as Headers).get('authorization')
+      ).toBe('Bearer fresh');
+    });
+
+    test('should reject an invalid auth strategy', () => {
+      expect(
+        () => new MondoAppConnect({ auth: 'token' as any })
+      ).toThrow('Invalid configuration:');
+    });
+  });
+
   describe('configuration validation edge cases', () => {
     test('should handle configuration with extra properties', () => {
       const config = {
@@ -325,7 +601,7 @@ describe('Common - Initialization (init.ts)', () => {
       const instance = new MondoAppConnect(config);
 
       // These should compile without TypeScript errors
-      const accessToken: string = instance.config.accessToken;
+      const accessToken: string | undefined = instance.config.accessToken;
       const host: URL = instance.config.host;
 
       expect(accessToken).toBe('test-access-token');
@@ -1,36 +1,164 @@
 import { z } from "zod";
+import { AppResources } from "../apps/resources.js";
+import { ConfigurationResources } from "../configurations/resources.js";
+import { ConnectionResources } from "../connections/resources.js";
+import { AppObjectResources } from "../objects/resources.js";
+import { AuthStrategySchema } from "./auth/strategies.js";
+import {
+	type AnyEnvironment,
+	configFromEnv,
+	Environment,
+	EnvironmentHost,
+	EnvironmentSchema,
+	type FromEnvOptions,
+} from "./environment.js";
+import { ClientLogger, LoggerSchema, LogLevelSchema } from "./logger.js";
+import type { Authorizer } from "./resources/authorization.js";
+import type { Middleware } from "./resources/middleware.js";
+import type { OperationOptions } from "./resources/operations.js";
+import { RetryPolicySchema } from "./resources/retry.js";
+import type { Transport } from "./resources/transport.js";
+import { ResponseValidationSchema } from "./resources/validation.js";
 
-const HostSchema = z
-	.url({
-		hostname: z.regexes.domain,
-	})
-	.default("https://dxnh0yagb1.execute-api.us-east-1.amazonaws.com") // Todo - Replace me!
-	.transform((url) => new URL(url));
+const HostUrlSchema = z.url({
+	hostname: z.regexes.domain,
+});
+
+const HostSchema = HostUrlSchema.default(EnvironmentHost.production).transform(
+	(url) => new URL(url),
+);
 export type HostProps = z.input<typeof HostSchema>;
 export type Host = z.output<typeof HostSchema>;
 
-const ConfigSchema = z.object({
-	host: HostSchema,
-	accessToken: z.string().min(1),
-});
+const ConfigSchema = z
+	.object({
+		environment: EnvironmentSchema.default(Environment.PRODUCTION),
+		host: HostUrlSchema.optional(),
+		accessToken: z.string().min(1).optional(),
+		auth: AuthStrategySchema.optional(),
+		fetch: z
+			.custom<Transport>((value) => typeof value === "function", {
+				message: "fetch must be a function",
+			})
+			.optional(),
+		retry: RetryPolicySchema.optional(),
+		logger: LoggerSchema.optional(),
+		logLevel: LogLevelSchema.optional(),
+		responseValidation: ResponseValidationSchema.optional(),
+	})
+	.refine((config) => config.accessToken || config.auth, {
+		message: "Either accessToken or auth is required",
+		path: ["accessToken"],
+	})
+	.refine(
+		(config) => config.environment !== Environment.CUSTOM || config.host,
+		{
+			message: "host is required for the custom environment",
+			path: ["host"],
+		},
+	)
+	.transform(({ host, ...config }) => ({
+		...config,
+		host: new URL(host ?? environmentHost(config.environment)),
+	}));
 export type ConfigProps = z.input<typeof ConfigSchema>;
 export type Config = z.output<typeof ConfigSchema>;
 
 export class MondoAppConnect {
 	readonly config: Config;
+	readonly logger: ClientLogger;
+
+	private appResources?: AppResources;
+	private appObjectResources?: AppObjectResources;
+	private connectionResources?: ConnectionResources;
+	private configurationResources?: ConfigurationResources;
+
+	private readonly middleware: Middleware[] = [];
 
 	public constructor(config: ConfigProps) {
 		this.config = createConfig(config);
+		this.logger = new ClientLogger(this.config.logger, this.config.logLevel);
+	}
+
+	/**
+	 * Creates a client from `MONDO_APP_CONNECT_*` environment variables and an
+	 * optional profile file
+	 */
+	public static fromEnv(options?: FromEnvOptions): MondoAppConnect {
+		return new MondoAppConnect(configFromEnv(options));
+	}
+
+	/**
+	 * App resources bound to this client (created on first access)
+	 */
+	public get apps(): AppResources {
+		this.appResources ??= new AppResources(this);
+		return this.appResources;
 	}
 
 	/**
-	 * Builds an authorizer function based on the type of access token
+	 * App object resources bound to this client (created on first access)
 	 */
-	public get authorizer(): (request: RequestInit) => RequestInit {
-		if (this.config.accessToken) {
+	public get objects(): AppObjectResources {
+		this.appObjectResources ??= new AppObjectResources(this);
+		return this.appObjectResources;
+	}
+
+	/**
+	 * Connection resources bound to this client (created on first access)
+	 */
+	public get connections(): ConnectionResources {
+		this.connectionResources ??= new ConnectionResources(this);
+		return this.connectionResources;
+	}
+
+	/**
+	 * Configuration resources bound to this client (created on first access)
+	 */
+	public get configurations(): ConfigurationResources {
+		this.configurationResources ??= new ConfigurationResources(this);
+		return this.configurationResources;
+	}
+
+	/**
+	 * Appends middleware to the request pipeline of this client
+	 */
+	public use(...middleware: Middleware[]): this {
+		this.middleware.push(...middleware);
+		return this;
+	}
+
+	/**
+	 * Options shared by every request sent through this client
+	 */
+	public get operationOptions(): OperationOptions {
+		return {
+			fetch: this.config.fetch,
+			middleware: this.middleware,
+			retry: this.config.retry,
+			logger: this.logger,
+		};
+	}
+
+	/**
+	 * Builds an authorizer function based on the configured auth strategy, or
+	 * the type of access token
+	 */
+	public get authorizer(): Authorizer {
+		const { auth, accessToken } = this.config;
+
+		if (auth) {
+			return Object.assign(
+				(request: RequestInit) =>
+					auth.authorize(request, { fetch: this.config.fetch }),
+				{ refresh: auth.refresh?.bind(auth) },
+			);
+		}
+
+		if (accessToken) {
 			return (request) => {
 				request.headers = new Headers(request.headers);
-				request.headers.append("authorization", this.config.accessToken);
+				request.headers.append("authorization", accessToken);
 				return request;
 			};
 		}
@@ -50,6 +178,14 @@ function createConfig(config: ConfigProps): Config {
 	}
 }
 
+function environmentHost(environment: AnyEnvironment): string {
+	if (environment === Environment.CUSTOM) {
+		throw new Error("Invalid configuration: host is required");
+	}
+
+	return EnvironmentHost[environment];
+}
+
 export function createHost(config: HostProps = undefined): Host {
 	try {
 		return HostSchema.parse(config);
@@ -0,0 +1,91 @@
+import { type Mock, beforeEach, describe, expect, test, vi } from 'vitest';
+import { ClientLogger, type Logger, LoggerSchema, LogLevel } from './logger.js';
+
+describe('Common - Logger', () => {
+  let sink: { [K in keyof Logger]: Mock };
+
+  beforeEach(() => {
+    sink = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  });
+
+  describe('ClientLogger', () => {
+    test('should be silent without a logger', () => {
+      const logger = new ClientLogger(undefined, LogLevel.DEBUG);
+
+      expect(logger.level).toBe('silent');
+      expect(logger.isDebugEnabled).toBe(false);
+      expect(() => logger.error('nothing happens')).not.toThrow();
+    });
+
+    test('should default to the info level', () => {
+      const logger = new ClientLogger(sink);
+
+      logger.debug('hidden');
+      logger.info('shown', { status: 200 });
+
+      expect(sink.debug).not.toHaveBeenCalled();
+      expect(sink.info).toHaveBeenCalledWith('shown', { status: 200 });
+    });
+
+    test('should filter entries below the configured level', () => {
+      const logger = new ClientLogger(sink, LogLevel.WARN);
+
+      logger.debug('debug');
+      logger.info('info');
+      logger.warn('warn');
+      logger.error('error');
+
+      expect(sink.debug).not.toHaveBeenCalled();
+      expect(sink.info).not.toHaveBeenCalled();
+      expect(sink.warn).toHaveBeenCalledWith('warn', undefined);
+      expect(sink.error).toHaveBeenCalledWith('error', undefined);
+    });
+
+    test('should drop everything when silent', () => {
+      const logger = new ClientLogger(sink, LogLevel.SILENT);
+
+      logger.error('error');
+
+      expect(sink.error).not.toHaveBeenCalled();
+    });
+
+    test('should redact sensitive headers below debug', () => {
+      const logger = new ClientLogger(sink, LogLevel.INFO);
+
+      expect(
+        logger.headers({ authorization: 'secret', accept: 'application/json' })
+      ).toEqual({ authorization: '[redacted]', accept: 'application/json' });
+    });
+
+    test('should keep sensitive headers at debug', () => {
+      const logger = new ClientLogger(sink, LogLevel.DEBUG);
+
+      expect(logger.headers({ authorization: 'secret' })).toEqual({
+        authorization: 'secret',
+      });
+    });
+
+    test('should redact bodies below debug', () => {
+      expect(new ClientLogger(sink, LogLevel.INFO).body('{"a":1}')).toBe(
+        '[redacted]'
+      );
+      expect(new ClientLogger(sink, LogLevel.DEBUG).body('{"a":1}')).toBe(
+        '{"a":1}'
+      );
+      expect(new ClientLogger(sink, LogLevel.INFO).body(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('LoggerSchema', () => {
+    test('should accept console', () => {
+      expect(LoggerSchema.safeParse(console).success).toBe(true);
+    });
+
+    test('should reject incomplete loggers', () => {
+      expect(LoggerSchema.safeParse({ info: () => undefined }).success).toBe(
+        false
+      );
+      expect(LoggerSchema.safeParse(null).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { z } from "zod";
+
+export const LogLevel = {
+	DEBUG: "debug",
+	INFO: "info",
+	WARN: "warn",
+	ERROR: "error",
+	SILENT: "silent",
+} as const;
+export type AnyLogLevel = (typeof LogLevel)[keyof typeof LogLevel];
+
+export const LogLevelSchema = z.enum([
+	LogLevel.DEBUG,
+	LogLevel.INFO,
+	LogLevel.WARN,
+	LogLevel.ERROR,
+	LogLevel.SILENT,
+]);
+
+const SEVERITY: Record<AnyLogLevel, number> = {
+	debug: 10,
+	info: 20,
+	warn: 30,
+	error: 40,
+	silent: Number.POSITIVE_INFINITY,
+};
+
+const REDACTED = "[redacted]";
+const SENSITIVE_HEADERS = ["authorization", "proxy-authorization", "cookie"];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Any structured logger; `console`, pino and winston all satisfy it
+ */
+export type Logger = {
+	debug(message: string, fields?: LogFields): void;
+	info(message: string, fields?: LogFields): void;
+	warn(message: string, fields?: LogFields): void;
+	error(message: string, fields?: LogFields): void;
+};
+
+export const LoggerSchema = z.custom<Logger>(
+	(value) =>
+		typeof value === "object" &&
+		value !== null &&
+		["debug", "info", "warn", "error"].every(
+			(level) =>
+				typeof (value as Record<string, unknown>)[level] === "function",
+		),
+	{ message: "logger must implement debug, info, warn and error" },
+);
+
+/**
+ * Filters log entries below the configured level and redacts sensitive
+ * fields unless debug logging is enabled.  Silent unless a logger is provided.
+ */
+export class ClientLogger implements Logger {
+	readonly level: AnyLogLevel;
+
+	public constructor(
+		private readonly logger?: Logger,
+		level: AnyLogLevel = LogLevel.INFO,
+	) {
+		this.level = logger ? level : LogLevel.SILENT;
+	}
+
+	public get isDebugEnabled(): boolean {
+		return this.isEnabled(LogLevel.DEBUG);
+	}
+
+	public isEnabled(level: Exclude<AnyLogLevel, "silent">): boolean {
+		return SEVERITY[level] >= SEVERITY[this.level];
+	}
+
+	public debug(message: string, fields?: LogFields): void {
+		if (this.isEnabled(LogLevel.DEBUG)) {
+			this.logger?.debug(message, fields);
+		}
+	}
+
+	public info(message: string, fields?: LogFields): void {
+		if (this.isEnabled(LogLevel.INFO)) {
+			this.logger?.info(message, fields);
+		}
+	}
+
+	public warn(message: string, fields?: LogFields): void {
+		if (this.isEnabled(LogLevel.WARN)) {
+			this.logger?.warn(message, fields);
+		}
+	}
+
+	public error(message: string, fields?: LogFields): void {
+		if (this.isEnabled(LogLevel.ERROR)) {
+			this.logger?.error(message, fields);
+		}
+	}
+
+	/**
+	 * Headers safe to log at the current level
+	 */
+	public headers(headers?: HeadersInit): Record<string, string> {
+		const entries: Record<string, string> = {};
+
+		new Headers(headers).forEach((value, key) => {
+			entries[key] =
+				!this.isDebugEnabled && SENSITIVE_HEADERS.includes(key)
+					? REDACTED
+					: value;
+		});
+
+		return entries;
+	}
+
+	/**
+	 * A request or response body safe to log at the current level
+	 */
+	public body(body: unknown): unknown {
+		if (body === undefined || body === null) {
+			return undefined;
+		}
+
+		return this.isDebugEnabled ? body : REDACTED;
+	}
+}
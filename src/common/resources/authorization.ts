@@ -1 +1,12 @@
 export type Authorization = (request: RequestInit) => RequestInit;
+
+/**
+ * Authorizes outgoing requests, possibly asynchronously.  When `refresh` is
+ * present, a 401 response discards the cached credentials and the request is
+ * replayed once.
+ */
+export type Authorizer = ((
+	request: RequestInit,
+) => RequestInit | Promise<RequestInit>) & {
+	refresh?: () => Promise<void>;
+};
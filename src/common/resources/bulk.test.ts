@@ -0,0 +1,112 @@
+import { describe, expect, test, vi } from 'vitest';
+import { HttpError } from '../errors/http.js';
+import { ServerError } from '../errors/status.js';
+import { runBulk } from './bulk.js';
+
+describe('Common Resources - Bulk', () => {
+  const identity = (item: string) => item;
+
+  test('should report succeeded, failed and duplicate items', async () => {
+    const report = await runBulk(
+      ['a', 'b', 'a', 'c'],
+      identity,
+      async (item) => {
+        if (item === 'b') {
+          throw new HttpError('Not Found', { statusCode: 404 });
+        }
+        return item.toUpperCase();
+      }
+    );
+
+    expect(report.succeeded).toEqual([
+      { item: 'a', result: 'A' },
+      { item: 'c', result: 'C' },
+    ]);
+    expect(report.failed).toHaveLength(1);
+    expect(report.failed[0].item).toBe('b');
+    expect(report.failed[0].error.statusCode).toBe(404);
+    expect(report.skipped).toEqual([{ item: 'a', reason: 'duplicate' }]);
+  });
+
+  test('should accept async iterables', async () => {
+    async function* generate() {
+      yield 'a';
+      yield 'b';
+    }
+
+    const report = await runBulk(generate(), identity, async (item) => item);
+
+    expect(report.succeeded.map(({ item }) => item)).toEqual(['a', 'b']);
+  });
+
+  test('should retry retryable failures up to maxAttempts', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new ServerError('Unavailable', { statusCode: 503 }))
+      .mockResolvedValueOnce('done');
+
+    const report = await runBulk(['a'], identity, operation, {
+      retry: { maxAttempts: 2, baseDelayMs: 0 },
+    });
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(report.succeeded).toEqual([{ item: 'a', result: 'done' }]);
+  });
+
+  test('should not retry without a retry option', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new ServerError('Unavailable', { statusCode: 503 }));
+
+    const report = await runBulk(['a'], identity, operation);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(report.failed[0].error.statusCode).toBe(503);
+  });
+
+  test('should emit progress after each item', async () => {
+    const onProgress = vi.fn();
+
+    await runBulk(['a', 'a'], identity, async (item) => item, {
+      concurrency: 1,
+      onProgress,
+    });
+
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      processed: 2,
+      succeeded: 1,
+      failed: 0,
+      skipped: 1,
+      latest: { status: 'skipped', item: 'a', reason: 'duplicate' },
+    });
+  });
+
+  test('should skip items in flight once aborted', async () => {
+    const controller = new AbortController();
+
+    const report = await runBulk(
+      ['a', 'b', 'c'],
+      identity,
+      async (item) => {
+        if (item === 'b') {
+          controller.abort();
+          throw controller.signal.reason;
+        }
+        return item;
+      },
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    expect(report.succeeded).toEqual([{ item: 'a', result: 'a' }]);
+    expect(report.skipped).toEqual([{ item: 'b', reason: 'aborted' }]);
+  });
+
+  test('should reject on errors that are not HttpErrors', async () => {
+    await expect(
+      runBulk(['a'], identity, async () => {
+        throw new TypeError('bug');
+      })
+    ).rejects.toThrow('bug');
+  });
+});
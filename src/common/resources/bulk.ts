@@ -0,0 +1,161 @@
+import { HttpError } from "../errors/http.js";
+import { isRetryable } from "../errors/predicates.js";
+import { DEFAULT_CONCURRENCY, forEachWithConcurrency } from "./pool.js";
+import {
+	type RetryPolicyProps,
+	RetryPolicySchema,
+	retryDelay,
+	sleep,
+} from "./retry.js";
+
+export type BulkSucceeded<T, R> = { item: T; result: R };
+export type BulkFailed<T> = { item: T; error: HttpError };
+export type BulkSkipped<T> = {
+	item: T;
+	/**
+	 * `duplicate` items repeat an earlier one of the same run; `aborted` items
+	 * were cut short by the signal
+	 */
+	reason: "duplicate" | "aborted";
+};
+
+export type BulkOutcome<T, R> =
+	| ({ status: "succeeded" } & BulkSucceeded<T, R>)
+	| ({ status: "failed" } & BulkFailed<T>)
+	| ({ status: "skipped" } & BulkSkipped<T>);
+
+/**
+ * Failed and skipped items can be passed to another run as they are
+ */
+export type BulkReport<T, R> = {
+	succeeded: BulkSucceeded<T, R>[];
+	failed: BulkFailed<T>[];
+	skipped: BulkSkipped<T>[];
+};
+
+export type BulkProgress<T, R> = {
+	processed: number;
+	succeeded: number;
+	failed: number;
+	skipped: number;
+	latest: BulkOutcome<T, R>;
+};
+
+export type BulkOptions<T, R> = {
+	/**
+	 * Items in flight at once, defaults to 8
+	 */
+	concurrency?: number;
+	/**
+	 * Attempts per item for retryable failures, on top of the client's own
+	 * retry policy.  Items are attempted once when omitted.
+	 */
+	retry?: Pick<RetryPolicyProps, "maxAttempts" | "baseDelayMs" | "maxDelayMs">;
+	/**
+	 * Stops reading items; those in flight are reported as skipped.  Items not
+	 * yet read from the input are not reported.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Called after each item settles
+	 */
+	onProgress?: (progress: BulkProgress<T, R>) => void;
+};
+
+/**
+ * Runs the operation for every distinct item, recording each outcome instead
+ * of rejecting the run.  Errors other than `HttpError` (bugs, aborts outside
+ * of the signal) still reject.
+ */
+export async function runBulk<T, R>(
+	items: Iterable<T> | AsyncIterable<T>,
+	key: (item: T) => string,
+	operation: (item: T) => Promise<R>,
+	options?: BulkOptions<T, R>,
+): Promise<BulkReport<T, R>> {
+	const report: BulkReport<T, R> = { succeeded: [], failed: [], skipped: [] };
+	const policy = options?.retry
+		? RetryPolicySchema.parse(options.retry)
+		: undefined;
+	const seen = new Set<string>();
+	let processed = 0;
+
+	const record = (outcome: BulkOutcome<T, R>) => {
+		const { status, ...entry } = outcome;
+
+		if (status === "succeeded") {
+			report.succeeded.push(entry as BulkSucceeded<T, R>);
+		} else if (status === "failed") {
+			report.failed.push(entry as BulkFailed<T>);
+		} else {
+			report.skipped.push(entry as BulkSkipped<T>);
+		}
+
+		processed++;
+		options?.onProgress?.({
+			processed,
+			succeeded: report.succeeded.length,
+			failed: report.failed.length,
+			skipped: report.skipped.length,
+			latest: outcome,
+		});
+	};
+
+	await forEachWithConcurrency(
+		items,
+		options?.concurrency ?? DEFAULT_CONCURRENCY,
+		async (item) => {
+			const id = key(item);
+
+			if (seen.has(id)) {
+				record({ status: "skipped", item, reason: "duplicate" });
+				return;
+			}
+
+			seen.add(id);
+
+			for (let attempt = 1; ; attempt++) {
+				let result: R;
+
+				try {
+					result = await operation(item);
+				} catch (error) {
+					if (options?.signal?.aborted) {
+						record({ status: "skipped", item, reason: "aborted" });
+						return;
+					}
+
+					if (!(error instanceof HttpError)) {
+						throw error;
+					}
+
+					if (!policy || attempt >= policy.maxAttempts || !isRetryable(error)) {
+						record({ status: "failed", item, error });
+						return;
+					}
+
+					const aborted = await sleep(
+						retryDelay(policy, attempt),
+						options?.signal,
+					).then(
+						() => false,
+						() => true,
+					);
+
+					if (aborted) {
+						record({ status: "skipped", item, reason: "aborted" });
+						return;
+					}
+
+					continue;
+				}
+
+				record({ status: "succeeded", item, result });
+				return;
+			}
+		},
+		options?.signal,
+	);
+
+	return report;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'vitest';
+import { HttpError } from '../errors/http.js';
+import { NotFoundError } from '../errors/status.js';
+import { changedFields, diffFields, findItem, hasChanges } from './ensure.js';
+
+describe('Common Resources - Ensure', () => {
+  describe('diffFields', () => {
+    test('should report fields that differ', () => {
+      const diff = diffFields(
+        { name: 'Old', avatar: 'https://example.com/a.png' },
+        { name: 'New', avatar: 'https://example.com/a.png' }
+      );
+
+      expect(diff).toEqual({ name: { current: 'Old', desired: 'New' } });
+      expect(hasChanges(diff)).toBe(true);
+      expect(changedFields(diff)).toEqual({ name: 'New' });
+    });
+
+    test('should ignore fields left undefined in the desired state', () => {
+      const diff = diffFields<{ name: string; avatar?: string }>(
+        { name: 'Same', avatar: 'https://example.com/a.png' },
+        { name: 'Same', avatar: undefined }
+      );
+
+      expect(diff).toEqual({});
+      expect(hasChanges(diff)).toBe(false);
+    });
+
+    test('should report every desired field when nothing exists yet', () => {
+      expect(diffFields(undefined, { name: 'New', avatar: undefined })).toEqual({
+        name: { current: undefined, desired: 'New' },
+      });
+    });
+  });
+
+  describe('findItem', () => {
+    test('should resolve undefined for a 404', async () => {
+      await expect(
+        findItem(Promise.reject(new NotFoundError()))
+      ).resolves.toBeUndefined();
+    });
+
+    test('should rethrow other errors', async () => {
+      const error = new HttpError('Forbidden', { statusCode: 403 });
+
+      await expect(findItem(Promise.reject(error))).rejects.toBe(error);
+    });
+  });
+});
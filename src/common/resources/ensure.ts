@@ -0,0 +1,72 @@
+import { NotFoundError } from "../errors/status.js";
+
+export const EnsureOutcome = {
+	CREATED: "created",
+	UPDATED: "updated",
+	UNCHANGED: "unchanged",
+} as const;
+export type AnyEnsureOutcome =
+	(typeof EnsureOutcome)[keyof typeof EnsureOutcome];
+
+/**
+ * Fields that differ between the current and the desired state
+ */
+export type EnsureDiff<T> = {
+	[K in keyof T]?: { current: T[K] | undefined; desired: T[K] };
+};
+
+export type EnsureResult<Item, Fields> = {
+	outcome: AnyEnsureOutcome;
+	item: Item;
+	diff: EnsureDiff<Fields>;
+};
+
+/**
+ * Compares the desired fields with the current item.  Fields left undefined
+ * in the desired state are not managed and never reported.
+ */
+export function diffFields<T extends Record<string, unknown>>(
+	current: Partial<T> | undefined,
+	desired: T,
+): EnsureDiff<T> {
+	const diff: EnsureDiff<T> = {};
+
+	for (const key of Object.keys(desired) as (keyof T)[]) {
+		if (desired[key] !== undefined && current?.[key] !== desired[key]) {
+			diff[key] = { current: current?.[key], desired: desired[key] };
+		}
+	}
+
+	return diff;
+}
+
+export function hasChanges<T>(diff: EnsureDiff<T>): boolean {
+	return Object.keys(diff).length > 0;
+}
+
+/**
+ * Only the fields that changed, with their desired values
+ */
+export function changedFields<T>(diff: EnsureDiff<T>): Partial<T> {
+	return Object.fromEntries(
+		Object.entries(diff).map(([key, change]) => [
+			key,
+			(change as { desired: unknown }).desired,
+		]),
+	) as Partial<T>;
+}
+
+/**
+ * The item, or undefined when the server answers 404
+ */
+export async function findItem<T>(request: Promise<T>): Promise<T | undefined> {
+	try {
+		return await request;
+	} catch (error) {
+		if (error instanceof NotFoundError) {
+			return undefined;
+		}
+
+		throw error;
+	}
+}
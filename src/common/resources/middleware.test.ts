@@ -0,0 +1,141 @@
+import { describe, expect, test, vi } from 'vitest';
+import { type Middleware, sendWithMiddleware } from './middleware.js';
+
+describe('Common Resources - Middleware', () => {
+  const testUrl = new URL('https://api.example.com/resource');
+
+  const okResponse = (body: unknown = {}) =>
+    new Response(JSON.stringify(body), { status: 200 });
+
+  describe('sendWithMiddleware', () => {
+    test('should call the transport directly without middleware', async () => {
+      const response = okResponse();
+      const transport = vi.fn().mockResolvedValueOnce(response);
+      const request = { method: 'GET' };
+
+      const result = await sendWithMiddleware([], transport, testUrl, request);
+
+      expect(result).toBe(response);
+      expect(transport).toHaveBeenCalledWith(testUrl, request);
+    });
+
+    test('should run onRequest stages in registration order', async () => {
+      const order: string[] = [];
+      const transport = vi.fn().mockResolvedValueOnce(okResponse());
+
+      const middleware: Middleware[] = [
+        {
+          onRequest: ({ request }) => {
+            order.push('first');
+            request.headers = new Headers({ 'x-trace-id': 'abc' });
+            return undefined;
+          },
+        },
+        {
+          onRequest: async ({ url, request }) => {
+            order.push('second');
+            return { url: new URL('/rewritten', url), request };
+          },
+        },
+      ];
+
+      await sendWithMiddleware(middleware, transport, testUrl, {});
+
+      expect(order).toEqual(['first', 'second']);
+      const [url, request] = transport.mock.calls[0];
+      expect(url.toString()).toBe('https://api.example.com/rewritten');
+      expect((request.headers as Headers).get('x-trace-id')).toBe('abc');
+    });
+
+    test('should run onResponse stages in reverse order', async () => {
+      const order: string[] = [];
+      const replacement = okResponse({ rewritten: true });
+      const transport = vi.fn().mockResolvedValueOnce(okResponse());
+
+      const middleware: Middleware[] = [
+        {
+          onResponse: (response) => {
+            order.push('first');
+            expect(response).toBe(replacement);
+            return undefined;
+          },
+        },
+        {
+          onResponse: async () => {
+            order.push('second');
+            return replacement;
+          },
+        },
+      ];
+
+      const result = await sendWithMiddleware(middleware, transport, testUrl, {});
+
+      expect(order).toEqual(['second', 'first']);
+      expect(result).toBe(replacement);
+    });
+
+    test('should pass the request context to onResponse', async () => {
+      const onResponse = vi.fn();
+      const transport = vi.fn().mockResolvedValueOnce(okResponse());
+      const request = { method: 'GET' };
+
+      await sendWithMiddleware([{ onResponse }], transport, testUrl, request);
+
+      expect(onResponse).toHaveBeenCalledWith(expect.any(Response), {
+        url: testUrl,
+        request,
+      });
+    });
+
+    test('should rethrow transport errors after notifying onError', async () => {
+      const error = new Error('socket hang up');
+      const onError = vi.fn();
+      const transport = vi.fn().mockRejectedValueOnce(error);
+
+      await expect(
+        sendWithMiddleware([{ onError }], transport, testUrl, {})
+      ).rejects.toBe(error);
+      expect(onError).toHaveBeenCalledWith(error, { url: testUrl, request: {} });
+    });
+
+    test('should recover when onError returns a response', async () => {
+      const fallback = okResponse({ cached: true });
+      const transport = vi.fn().mockRejectedValueOnce(new Error('offline'));
+      const skipped = vi.fn();
+
+      const result = await sendWithMiddleware(
+        [{ onError: skipped }, { onError: () => fallback }],
+        transport,
+        testUrl,
+        {}
+      );
+
+      expect(result).toBe(fallback);
+      expect(skipped).not.toHaveBeenCalled();
+    });
+
+    test('should route errors thrown by middleware to onError', async () => {
+      const error = new Error('bad middleware');
+      const onError = vi.fn();
+      const transport = vi.fn();
+
+      await expect(
+        sendWithMiddleware(
+          [
+            { onError },
+            {
+              onRequest: () => {
+                throw error;
+              },
+            },
+          ],
+          transport,
+          testUrl,
+          {}
+        )
+      ).rejects.toBe(error);
+      expect(onError).toHaveBeenCalledWith(error, expect.any(Object));
+      expect(transport).not.toHaveBeenCalled();
+    });
+  });
+});
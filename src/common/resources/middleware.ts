@@ -0,0 +1,71 @@
+import type { Transport } from "./transport.js";
+
+type Replacement<T> = Promise<T | undefined> | T | undefined;
+
+export type MiddlewareRequest = {
+	url: URL;
+	request: RequestInit;
+};
+
+/**
+ * Hooks into every request sent by the client.  `onRequest` stages run in the
+ * order the middleware was registered; `onResponse` and `onError` stages run in
+ * reverse order so the first middleware registered wraps all of the others.
+ */
+export type Middleware = {
+	/**
+	 * Inspect or replace the outgoing request.  Return `undefined` to keep it as
+	 * is.
+	 */
+	onRequest?: (context: MiddlewareRequest) => Replacement<MiddlewareRequest>;
+
+	/**
+	 * Inspect or replace the response.  Return `undefined` to keep it as is.
+	 */
+	onResponse?: (
+		response: Response,
+		context: MiddlewareRequest,
+	) => Replacement<Response>;
+
+	/**
+	 * Observe a failed exchange.  Returning a response recovers from the error,
+	 * returning `undefined` lets the error propagate.
+	 */
+	onError?: (
+		error: unknown,
+		context: MiddlewareRequest,
+	) => Replacement<Response>;
+};
+
+export async function sendWithMiddleware(
+	middleware: readonly Middleware[],
+	transport: Transport,
+	url: URL,
+	request: RequestInit,
+): Promise<Response> {
+	let context: MiddlewareRequest = { url, request };
+
+	try {
+		for (const { onRequest } of middleware) {
+			context = (await onRequest?.(context)) ?? context;
+		}
+
+		let response = await transport(context.url, context.request);
+
+		for (const { onResponse } of [...middleware].reverse()) {
+			response = (await onResponse?.(response, context)) ?? response;
+		}
+
+		return response;
+	} catch (error) {
+		for (const { onError } of [...middleware].reverse()) {
+			const response = await onError?.(error, context);
+
+			if (response) {
+				return response;
+			}
+		}
+
+		throw error;
+	}
+}
@@ -8,11 +8,16 @@ import {
   vi,
 } from 'vitest';
 import { HttpError } from '../errors/http.js';
+import { NetworkError, TimeoutError } from '../errors/network.js';
+import { isRetryable } from '../errors/predicates.js';
+import { ClientLogger, type Logger } from '../logger.js';
 import type { Authorization } from './authorization.js';
+import { RetryPolicySchema } from './retry.js';
 import {
   deleteItemWithAuthorization,
   getItemWithAuthorization,
   listItemsWithAuthorization,
+  postItemWithAuthorization,
   putItemWithAuthorization,
 } from './operations.js';
 
@@ -23,6 +28,13 @@ global.console.debug = vi.fn();
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+const errorResponse = (status: number, body: unknown, statusText?: string) =>
+  new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: { 'content-type': 'application/json' },
+  });
+
 describe('Common Resources - Operations', () => {
   let mockAuthorization: Mock<Authorization>;
   let testUrl: URL;
@@ -92,15 +104,12 @@ describe('Common Resources - Operations', () => {
     });
 
     test('should throw HttpError when response is not ok', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-        json: () =>
-          Promise.resolve({
-            error: 'not_found',
-            error_description: 'Resource not found',
-          }),
-      });
+      mockFetch.mockResolvedValueOnce(
+        errorResponse(404, {
+          error: 'not_found',
+          error_description: 'Resource not found',
+        })
+      );
 
       await expect(
         listItemsWithAuthorization(testUrl, mockAuthorization)
@@ -115,7 +124,7 @@ describe('Common Resources - Operations', () => {
       ).rejects.toThrow(HttpError);
     });
 
-    test('should log debug information', async () => {
+    test('should not log to the console by default', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve({}),
@@ -123,9 +132,7 @@ describe('Common Resources - Operations', () => {
 
       await listItemsWithAuthorization(testUrl, mockAuthorization);
 
-      expect(console.debug).toHaveBeenCalledWith('List items', {
-        url: testUrl,
-      });
+      expect(console.debug).not.toHaveBeenCalled();
     });
   });
 
@@ -151,22 +158,19 @@ describe('Common Resources - Operations', () => {
     });
 
     test('should handle authorization errors', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 401,
-        json: () =>
-          Promise.resolve({
-            error: 'unauthorized',
-            error_description: 'Invalid token',
-          }),
-      });
+      mockFetch.mockResolvedValueOnce(
+        errorResponse(401, {
+          error: 'unauthorized',
+          error_description: 'Invalid token',
+        })
+      );
 
       await expect(
         getItemWithAuthorization(testUrl, mockAuthorization)
       ).rejects.toThrow(HttpError);
     });
 
-    test('should log debug information', async () => {
+    test('should not log to the console by default', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve({}),
@@ -174,7 +178,53 @@ describe('Common Resources - Operations', () => {
 
       await getItemWithAuthorization(testUrl, mockAuthorization);
 
-      expect(console.debug).toHaveBeenCalledWith('GET item', { url: testUrl });
+      expect(console.debug).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('postItemWithAuthorization', () => {
+    test('should create item with mutation headers', async () => {
+      const insertData = { name: 'New Item' };
+      const responseData = { id: 1, name: 'New Item' };
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(responseData),
+      });
+
+      const result = await postItemWithAuthorization(
+        testUrl,
+        mockAuthorization,
+        insertData
+      );
+
+      expect(result).toEqual(responseData);
+      expect(mockFetch).toHaveBeenCalledWith(
+        testUrl,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify(insertData),
+        })
+      );
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers.get('content-type')).toBe('application/json');
+    });
+
+    test('should describe the request on failure', async () => {
+      mockFetch.mockResolvedValueOnce(
+        errorResponse(409, { error: 'conflict' }, 'Conflict')
+      );
+
+      const error = (await postItemWithAuthorization(
+        testUrl,
+        mockAuthorization,
+        { name: 'New Item' }
+      ).catch((e) => e)) as HttpError;
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(409);
+      expect(error.request).toEqual({ method: 'POST', url: testUrl.toString() });
     });
   });
 
@@ -254,22 +304,19 @@ describe('Common Resources - Operations', () => {
     });
 
     test('should handle server errors', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-        json: () =>
-          Promise.resolve({
-            error: 'internal_error',
-            error_description: 'Internal server error',
-          }),
-      });
+      mockFetch.mockResolvedValueOnce(
+        errorResponse(500, {
+          error: 'internal_error',
+          error_description: 'Internal server error',
+        })
+      );
 
       await expect(
         putItemWithAuthorization(testUrl, mockAuthorization, {})
       ).rejects.toThrow(HttpError);
     });
 
-    test('should log debug information', async () => {
+    test('should not log to the console by default', async () => {
       const insertData = { name: 'Test' };
 
       mockFetch.mockResolvedValueOnce({
@@ -279,10 +326,7 @@ describe('Common Resources - Operations', () => {
 
       await putItemWithAuthorization(testUrl, mockAuthorization, insertData);
 
-      expect(console.debug).toHaveBeenCalledWith('PUT item', {
-        url: testUrl,
-        item: insertData,
-      });
+      expect(console.debug).not.toHaveBeenCalled();
     });
   });
 
@@ -339,22 +383,19 @@ describe('Common Resources - Operations', () => {
     });
 
     test('should handle not found errors', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-        json: () =>
-          Promise.resolve({
-            error: 'not_found',
-            error_description: 'Resource not found',
-          }),
-      });
+      mockFetch.mockResolvedValueOnce(
+        errorResponse(404, {
+          error: 'not_found',
+          error_description: 'Resource not found',
+        })
+      );
 
       await expect(
         deleteItemWithAuthorization(testUrl, mockAuthorization)
       ).rejects.toThrow(HttpError);
     });
 
-    test('should log debug information', async () => {
+    test('should not log to the console by default', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve({}),
@@ -362,9 +403,7 @@ describe('Common Resources - Operations', () => {
 
       await deleteItemWithAuthorization(testUrl, mockAuthorization);
 
-      expect(console.debug).toHaveBeenCalledWith('DELETE item', {
-        url: testUrl,
-      });
+      expect(console.debug).not.toHaveBeenCalled();
     });
   });
 
@@ -425,15 +464,480 @@ describe('Common Resources - Operations', () => {
     });
 
     test('should handle malformed JSON responses', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('Invalid JSON', {
+          status: 500,
+          headers: { 'content-type': 'application/json' },
+        })
+      );
+
+      await expect(
+        getItemWithAuthorization(testUrl, mockAuthorization)
+      ).rejects.toThrow();
+    });
+
+    test('should describe the failed request on the error', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(404, { trace: 'trace-1' }));
+
+      const error = (await putItemWithAuthorization(
+        testUrl,
+        mockAuthorization,
+        { id: '1' },
+        { query: { dryRun: true } }
+      ).catch((e) => e)) as HttpError;
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.request).toEqual({
+        method: 'PUT',
+        url: 'https://api.example.com/resource?dryRun=true',
+      });
+      expect(error.trace).toBe('trace-1');
+    });
+
+    test('should chain transport failures as the cause', async () => {
+      const failure = new TypeError('fetch failed');
+      mockFetch.mockRejectedValueOnce(failure);
+
+      const error = (await getItemWithAuthorization(
+        testUrl,
+        mockAuthorization
+      ).catch((e) => e)) as HttpError;
+
+      expect(error.cause).toBe(failure);
+      expect(error.request).toEqual({
+        method: 'GET',
+        url: 'https://api.example.com/resource',
+      });
+    });
+  });
+
+  describe('custom transport', () => {
+    test('should send requests through the provided fetch', async () => {
+      const transport = vi.fn().mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ items: [] }),
+      });
+
+      await listItemsWithAuthorization(testUrl, mockAuthorization, {
+        fetch: transport,
+      });
+
+      expect(transport).toHaveBeenCalledWith(
+        testUrl,
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should use the provided fetch for every operation', async () => {
+      const transport = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({}),
+      });
+      const options = { fetch: transport };
+
+      await getItemWithAuthorization(testUrl, mockAuthorization, options);
+      await putItemWithAuthorization(testUrl, mockAuthorization, { a: 1 }, options);
+      await deleteItemWithAuthorization(testUrl, mockAuthorization, undefined, options);
+
+      expect(transport.mock.calls.map(([, request]) => request.method)).toEqual([
+        'GET',
+        'PUT',
+        'DELETE',
+      ]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should wrap transport failures in HttpError', async () => {
+      const transport = vi.fn().mockRejectedValueOnce(new Error('socket hang up'));
+
+      await expect(
+        getItemWithAuthorization(testUrl, mockAuthorization, { fetch: transport })
+      ).rejects.toThrow(HttpError);
+    });
+  });
+
+  describe('retries', () => {
+    const retry = (props = {}) =>
+      RetryPolicySchema.parse({ baseDelayMs: 0, ...props });
+
+    const unavailable = (status: number) =>
+      errorResponse(status, { error: 'unavailable' });
+
+    test('should not retry without a policy', async () => {
+      mockFetch.mockResolvedValueOnce(unavailable(503));
+
+      await expect(
+        getItemWithAuthorization(testUrl, mockAuthorization)
+      ).rejects.toThrow(HttpError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should retry retryable responses until success', async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable(503))
+        .mockResolvedValueOnce(unavailable(429))
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: 1 }) });
+
+      const result = await getItemWithAuthorization(testUrl, mockAuthorization, {
+        retry: retry(),
+      });
+
+      expect(result).toEqual({ id: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockAuthorization).toHaveBeenCalledTimes(3);
+    });
+
+    test('should retry network errors', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({}) });
+
+      await getItemWithAuthorization(testUrl, mockAuthorization, {
+        retry: retry(),
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry errors thrown by middleware', async () => {
+      const onRequest = vi.fn(() => {
+        throw new RangeError('Invalid time value');
+      });
+
+      await expect(
+        getItemWithAuthorization(testUrl, mockAuthorization, {
+          retry: retry(),
+          middleware: [{ onRequest }],
+        })
+      ).rejects.toThrow('Invalid time value');
+      expect(onRequest).toHaveBeenCalledTimes(1);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should not report a middleware TypeError as retryable', async () => {
+      const error = (await getItemWithAuthorization(testUrl, mockAuthorization, {
+        retry: retry(),
+        middleware: [
+          {
+            onRequest: () => (undefined as any).foo,
+          },
+        ],
+      }).catch((e) => e)) as HttpError;
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).not.toBeInstanceOf(NetworkError);
+      expect(error.cause).toBeInstanceOf(TypeError);
+      expect(isRetryable(error)).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should give up after the maximum attempts', async () => {
+      mockFetch.mockImplementation(async () => unavailable(502));
+
+      await expect(
+        getItemWithAuthorization(testUrl, mockAuthorization, {
+          retry: retry({ maxAttempts: 2 }),
+        })
+      ).rejects.toMatchObject({ statusCode: 502 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should report every attempt to the hook', async () => {
+      const onAttempt = vi.fn();
+      mockFetch
+        .mockResolvedValueOnce(unavailable(503))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+      await getItemWithAuthorization(testUrl, mockAuthorization, {
+        retry: retry({ onAttempt }),
+      });
+
+      expect(onAttempt).toHaveBeenCalledTimes(2);
+      expect(onAttempt).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          attempt: 1,
+          method: 'GET',
+          url: testUrl,
+          status: 503,
+          willRetry: true,
+          delayMs: expect.any(Number),
+        })
+      );
+      expect(onAttempt).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ attempt: 2, status: 200, willRetry: false })
+      );
+    });
+
+    test('should resend the same body on every attempt', async () => {
+      mockFetch
+        .mockResolvedValueOnce(unavailable(503))
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({}) });
+
+      await putItemWithAuthorization(testUrl, mockAuthorization, { a: 1 }, {
+        retry: retry(),
+      });
+
+      expect(mockFetch.mock.calls[0][1].body).toBe('{"a":1}');
+      expect(mockFetch.mock.calls[1][1].body).toBe('{"a":1}');
+    });
+  });
+
+  describe('request options', () => {
+    const okResponse = () => ({ ok: true, json: () => Promise.resolve({}) });
+
+    test('should merge additional headers over the defaults', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse());
+
+      await getItemWithAuthorization(testUrl, mockAuthorization, {
+        headers: { 'x-request-id': 'req-1', accept: 'application/problem+json' },
+      });
+
+      const headers = mockFetch.mock.calls[0][1].headers as Headers;
+      expect(headers.get('x-request-id')).toBe('req-1');
+      expect(headers.get('accept')).toBe('application/problem+json');
+      expect(headers.get('authorization')).toBe('Bearer test-token');
+    });
+
+    test('should append query parameters without mutating the URL', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse());
+
+      await listItemsWithAuthorization(testUrl, mockAuthorization, {
+        query: { expand: 'app', limit: 5, inferred: false },
+      });
+
+      const url = mockFetch.mock.calls[0][0] as URL;
+      expect(url.searchParams.get('expand')).toBe('app');
+      expect(url.searchParams.get('limit')).toBe('5');
+      expect(url.searchParams.get('inferred')).toBe('false');
+      expect(testUrl.search).toBe('');
+    });
+
+    test('should pass the signal to the transport', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValueOnce(okResponse());
+
+      await getItemWithAuthorization(testUrl, mockAuthorization, {
+        signal: controller.signal,
+      });
+
+      expect(mockFetch.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
+    test('should reject with the abort reason when aborted by the caller', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce(
+        (_url: URL, request: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            request.signal?.addEventListener('abort', () =>
+              reject(request.signal?.reason)
+            );
+          })
+      );
+
+      const pending = getItemWithAuthorization(testUrl, mockAuthorization, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    test('should reject with a TimeoutError when the timeout elapses', async () => {
+      mockFetch.mockImplementationOnce(
+        (_url: URL, request: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            request.signal?.addEventListener('abort', () =>
+              reject(request.signal?.reason)
+            );
+          })
+      );
+
+      const error = await getItemWithAuthorization(testUrl, mockAuthorization, {
+        timeoutMs: 10,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as TimeoutError).timeoutMs).toBe(10);
+    });
+
+    test('should reject with a TimeoutError when the body stalls', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('{"id":'));
+            },
+          }),
+          { status: 200 }
+        )
+      );
+
+      const error = await getItemWithAuthorization(testUrl, mockAuthorization, {
+        timeoutMs: 50,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).timeoutMs).toBe(50);
+      expect((error as TimeoutError).request).toEqual({
+        method: 'GET',
+        url: testUrl.toString(),
+      });
+    });
+
+    test('should stop retrying once the timeout elapses', async () => {
+      mockFetch.mockImplementation(async () => errorResponse(503, {}));
+
+      const error = await getItemWithAuthorization(testUrl, mockAuthorization, {
+        timeoutMs: 50,
+        retry: RetryPolicySchema.parse({
+          maxAttempts: 10,
+          baseDelayMs: 1_000,
+          maxDelayMs: 1_000,
+        }),
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(mockFetch.mock.calls.length).toBeLessThan(10);
+    });
+  });
+
+  describe('logging', () => {
+    let sink: { [K in keyof Logger]: Mock };
+
+    beforeEach(() => {
+      sink = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    });
+
+    test('should log completed requests with structured fields', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({}),
+      });
+
+      await getItemWithAuthorization(testUrl, mockAuthorization, {
+        logger: new ClientLogger(sink, 'debug'),
+      });
+
+      expect(sink.debug).toHaveBeenCalledWith(
+        'Request completed',
+        expect.objectContaining({
+          method: 'GET',
+          url: testUrl.toString(),
+          status: 200,
+          attempt: 1,
+          durationMs: expect.any(Number),
+        })
+      );
+    });
+
+    test('should redact tokens and bodies below debug', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(500, {}));
+
+      await putItemWithAuthorization(
+        testUrl,
+        mockAuthorization,
+        { secret: 'value' },
+        { logger: new ClientLogger(sink, 'info') }
+      ).catch(() => undefined);
+
+      expect(sink.debug).not.toHaveBeenCalled();
+      expect(sink.error).toHaveBeenCalledWith(
+        'Request failed',
+        expect.objectContaining({ status: 500 })
+      );
+      expect(JSON.stringify(sink.error.mock.calls)).not.toContain('test-token');
+      expect(JSON.stringify(sink.error.mock.calls)).not.toContain('value');
+    });
+
+    test('should include headers and bodies at debug', async () => {
       mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-        json: () => Promise.reject(new Error('Invalid JSON')),
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({}),
+      });
+
+      await putItemWithAuthorization(
+        testUrl,
+        mockAuthorization,
+        { name: 'value' },
+        { logger: new ClientLogger(sink, 'debug') }
+      );
+
+      expect(sink.debug).toHaveBeenCalledWith(
+        'Sending request',
+        expect.objectContaining({
+          method: 'PUT',
+          body: '{"name":"value"}',
+          headers: expect.objectContaining({
+            authorization: 'Bearer test-token',
+          }),
+        })
+      );
+    });
+
+    test('should log retries as warnings', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503, {}))
+        .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+      await getItemWithAuthorization(testUrl, mockAuthorization, {
+        logger: new ClientLogger(sink, 'warn'),
+        retry: RetryPolicySchema.parse({ baseDelayMs: 0 }),
+      });
+
+      expect(sink.warn).toHaveBeenCalledWith(
+        'Retrying request',
+        expect.objectContaining({ status: 503, attempt: 1 })
+      );
+      expect(sink.debug).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('credential refresh', () => {
+    const unauthorized = () => errorResponse(401, { error: 'unauthorized' });
+
+    test('should refresh credentials and replay once after a 401', async () => {
+      const refresh = vi.fn().mockResolvedValue(undefined);
+      const authorization = Object.assign(vi.fn(async (request: RequestInit) => request), {
+        refresh,
       });
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: 1 }) });
+
+      const result = await getItemWithAuthorization(testUrl, authorization);
+
+      expect(result).toEqual({ id: 1 });
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(authorization).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not replay more than once', async () => {
+      const refresh = vi.fn().mockResolvedValue(undefined);
+      const authorization = Object.assign((request: RequestInit) => request, {
+        refresh,
+      });
+      mockFetch.mockImplementation(async () => unauthorized());
+
+      await expect(
+        getItemWithAuthorization(testUrl, authorization)
+      ).rejects.toMatchObject({ statusCode: 401 });
+      expect(refresh).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not replay without a refresh function', async () => {
+      mockFetch.mockImplementation(async () => unauthorized());
 
       await expect(
         getItemWithAuthorization(testUrl, mockAuthorization)
-      ).rejects.toThrow();
+      ).rejects.toMatchObject({ statusCode: 401 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
   });
 });
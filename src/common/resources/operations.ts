@@ -1,4 +1,16 @@
-import type { Authorization } from "./authorization.js";
+import type { HttpErrorRequest } from "../errors/http.js";
+import { TimeoutError } from "../errors/network.js";
+import { ClientLogger, type LogFields } from "../logger.js";
+import type { Authorizer } from "./authorization.js";
+import { type Middleware, sendWithMiddleware } from "./middleware.js";
+import {
+	type AttemptOutcome,
+	type RetryPolicy,
+	retryDelay,
+	shouldRetry,
+	sleep,
+} from "./retry.js";
+import type { Transport } from "./transport.js";
 import {
 	defaultMutationRequestHeaders,
 	defaultRequestHeaders,
@@ -7,59 +19,366 @@ import {
 	toHttpError,
 } from "./utils.js";
 
+/**
+ * Options accepted by every resource function for a single request
+ */
+export type RequestOptions = {
+	/**
+	 * Aborts the request (including any pending retries)
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * Aborts the request with a `TimeoutError` after the given milliseconds
+	 */
+	timeoutMs?: number;
+
+	/**
+	 * Additional headers, overriding the defaults
+	 */
+	headers?: HeadersInit;
+
+	/**
+	 * Additional query string parameters
+	 */
+	query?: Record<string, string | number | boolean>;
+};
+
+export type OperationOptions = RequestOptions & {
+	/**
+	 * Transport used to send the request (defaults to the global fetch)
+	 */
+	fetch?: Transport;
+
+	/**
+	 * Middleware wrapping the request, in registration order
+	 */
+	middleware?: readonly Middleware[];
+
+	/**
+	 * Retry policy for failed attempts (no retries when omitted)
+	 */
+	retry?: RetryPolicy;
+
+	/**
+	 * Logger for request activity (silent when omitted)
+	 */
+	logger?: ClientLogger;
+};
+
+/**
+ * Aborts once `timeoutMs` elapses, covering every attempt and reading the body
+ */
+function startTimeout(options?: OperationOptions): AbortSignal | undefined {
+	return options?.timeoutMs !== undefined
+		? AbortSignal.timeout(options.timeoutMs)
+		: undefined;
+}
+
+async function send(
+	url: URL,
+	authorization: Authorizer,
+	request: RequestInit,
+	options?: OperationOptions,
+	timeout?: AbortSignal,
+): Promise<Response> {
+	const policy = options?.retry;
+	const target = withQuery(url, options?.query);
+	const signal = combineSignals(options?.signal, timeout);
+	const logger = options?.logger ?? new ClientLogger();
+	const method = request.method ?? "GET";
+	let refreshed = false;
+
+	for (let attempt = 1; ; attempt++) {
+		const authorized = await authorization({
+			...request,
+			headers: withHeaders(request.headers, options?.headers),
+			signal,
+		});
+		signal?.throwIfAborted();
+		const started = Date.now();
+		let outcome: AttemptOutcome;
+
+		logger.debug("Sending request", {
+			method,
+			url: target.toString(),
+			attempt,
+			headers: logger.headers(authorized.headers),
+			body: logger.body(authorized.body),
+		});
+
+		try {
+			outcome = {
+				response: await sendWithMiddleware(
+					options?.middleware ?? [],
+					options?.fetch ?? fetch,
+					target,
+					authorized,
+				),
+			};
+		} catch (error) {
+			outcome = { error };
+		}
+
+		if (
+			outcome.response?.status === 401 &&
+			authorization.refresh &&
+			!refreshed
+		) {
+			refreshed = true;
+			logger.info("Refreshing credentials", {
+				method,
+				url: target.toString(),
+				status: 401,
+				attempt,
+			});
+			await outcome.response.body?.cancel();
+			await authorization.refresh();
+			continue;
+		}
+
+		// The replay after refreshing credentials does not count as a retry
+		const willRetry =
+			policy !== undefined &&
+			!signal?.aborted &&
+			shouldRetry(
+				policy,
+				request.method,
+				refreshed ? attempt - 1 : attempt,
+				outcome,
+			);
+		const delayMs =
+			policy && willRetry
+				? retryDelay(policy, attempt, outcome.response)
+				: undefined;
+
+		policy?.onAttempt?.({
+			attempt,
+			method,
+			url: target,
+			status: outcome.response?.status,
+			error: outcome.error,
+			delayMs,
+			willRetry,
+		});
+
+		logAttempt(logger, outcome, willRetry, {
+			method,
+			url: target.toString(),
+			status: outcome.response?.status,
+			durationMs: Date.now() - started,
+			attempt,
+			delayMs,
+		});
+
+		if (!willRetry) {
+			if (outcome.response) {
+				return outcome.response;
+			}
+
+			throw outcome.error;
+		}
+
+		await outcome.response?.body?.cancel();
+		await sleep(delayMs ?? 0, signal);
+	}
+}
+
+function logAttempt(
+	logger: ClientLogger,
+	outcome: AttemptOutcome,
+	willRetry: boolean,
+	fields: LogFields,
+): void {
+	const error =
+		outcome.error instanceof Error ? outcome.error.message : outcome.error;
+
+	if (willRetry) {
+		logger.warn("Retrying request", { ...fields, error });
+	} else if (outcome.error !== undefined) {
+		logger.error("Request failed", { ...fields, error });
+	} else if (outcome.response && outcome.response.status >= 500) {
+		logger.error("Request failed", fields);
+	} else if (outcome.response && !outcome.response.ok) {
+		logger.info("Request rejected", fields);
+	} else {
+		logger.debug("Request completed", fields);
+	}
+}
+
+function withQuery(url: URL, query?: RequestOptions["query"]): URL {
+	if (!query) {
+		return url;
+	}
+
+	const target = new URL(url);
+
+	for (const [key, value] of Object.entries(query)) {
+		target.searchParams.set(key, String(value));
+	}
+
+	return target;
+}
+
+function withHeaders(
+	headers?: HeadersInit,
+	additional?: HeadersInit,
+): HeadersInit | undefined {
+	if (!additional) {
+		return headers;
+	}
+
+	const merged = new Headers(headers);
+
+	new Headers(additional).forEach((value, key) => {
+		merged.set(key, value);
+	});
+
+	return merged;
+}
+
+function combineSignals(
+	...signals: (AbortSignal | undefined)[]
+): AbortSignal | undefined {
+	const defined = signals.filter((signal) => signal !== undefined);
+
+	return defined.length > 1 ? AbortSignal.any(defined) : defined[0];
+}
+
+/**
+ * Settles with the promise, or rejects with the abort reason once either
+ * signal aborts.  A stalled body would otherwise outlive the timeout.
+ */
+function untilAborted<T>(
+	promise: Promise<T>,
+	options?: OperationOptions,
+	timeout?: AbortSignal,
+): Promise<T> {
+	const signal = combineSignals(options?.signal, timeout);
+
+	if (!signal) {
+		return promise;
+	}
+
+	return new Promise((resolve, reject) => {
+		const abort = () => reject(signal.reason);
+
+		if (signal.aborted) {
+			abort();
+			return;
+		}
+
+		signal.addEventListener("abort", abort, { once: true });
+		promise
+			.then(resolve, reject)
+			.finally(() => signal.removeEventListener("abort", abort));
+	});
+}
+
+/**
+ * A request aborted by the caller rejects with the abort reason, as fetch does;
+ * an elapsed timeout becomes a `TimeoutError` and everything else an
+ * `HttpError`.
+ */
+function toOperationError(
+	error: unknown,
+	request: HttpErrorRequest,
+	options?: OperationOptions,
+	timeout?: AbortSignal,
+): unknown {
+	if (options?.signal?.aborted && error === options.signal.reason) {
+		return error;
+	}
+
+	if (timeout?.aborted) {
+		return new TimeoutError(undefined, {
+			timeoutMs: options?.timeoutMs,
+			request,
+		});
+	}
+
+	return toHttpError(error, request);
+}
+
+function describeRequest(
+	method: string,
+	url: URL,
+	options?: OperationOptions,
+): HttpErrorRequest {
+	return { method, url: withQuery(url, options?.query).toString() };
+}
+
 export async function listItemsWithAuthorization<Result>(
 	url: URL,
-	authorization: Authorization,
+	authorization: Authorizer,
+	options?: OperationOptions,
 ): Promise<Result> {
-	try {
-		console.debug("List items", { url });
+	const request = describeRequest("GET", url, options);
+	const timeout = startTimeout(options);
 
-		const response = await fetch(
+	try {
+		const response = await send(
 			url,
-			authorization({
+			authorization,
+			{
 				method: "GET",
 				headers: defaultRequestHeaders(),
-			}),
+			},
+			options,
+			timeout,
 		);
 
 		if (response.ok) {
-			return await response.json();
+			return await untilAborted(response.json(), options, timeout);
 		}
 
-		throw await responseToHttpError(response);
+		throw await untilAborted(
+			responseToHttpError(response, request),
+			options,
+			timeout,
+		);
 	} catch (error) {
-		throw toHttpError(error);
+		throw toOperationError(error, request, options, timeout);
 	}
 }
 
 export async function getItemWithAuthorization<Result>(
 	url: URL,
-	authorization: Authorization,
+	authorization: Authorizer,
+	options?: OperationOptions,
 ): Promise<Result> {
-	try {
-		console.debug("GET item", { url });
+	const request = describeRequest("GET", url, options);
+	const timeout = startTimeout(options);
 
-		const response = await fetch(
+	try {
+		const response = await send(
 			url,
-			authorization({
+			authorization,
+			{
 				method: "GET",
 				headers: defaultRequestHeaders(),
-			}),
+			},
+			options,
+			timeout,
 		);
 
 		if (response.ok) {
-			return await response.json();
+			return await untilAborted(response.json(), options, timeout);
 		}
 
-		throw await responseToHttpError(response);
+		throw await untilAborted(
+			responseToHttpError(response, request),
+			options,
+			timeout,
+		);
 	} catch (error) {
-		throw toHttpError(error);
+		throw toOperationError(error, request, options, timeout);
 	}
 }
 
 // export async function updateItemWithAuthorization<Result, Mutation>(
 //   url: URL,
-//   authorization: Authorization,
+//   authorization: Authorizer,
 //   item: Mutation
 // ): Promise<Result> {
 //   try {
@@ -84,56 +403,114 @@ export async function getItemWithAuthorization<Result>(
 //   }
 // }
 
-export async function putItemWithAuthorization<Result, Mutation>(
+export async function postItemWithAuthorization<Result, Mutation>(
 	url: URL,
-	authorization: Authorization,
+	authorization: Authorizer,
 	item?: Mutation,
+	options?: OperationOptions,
 ): Promise<Result> {
+	const request = describeRequest("POST", url, options);
+	const timeout = startTimeout(options);
+
 	try {
-		console.debug("PUT item", { url, item });
+		const response = await send(
+			url,
+			authorization,
+			{
+				method: "POST",
+				headers: defaultMutationRequestHeaders(),
+				body: item ? JSON.stringify(item) : undefined,
+			},
+			options,
+			timeout,
+		);
+
+		if (response.ok) {
+			return await untilAborted(response.json(), options, timeout);
+		}
 
-		const response = await fetch(
+		throw await untilAborted(
+			responseToHttpError(response, request),
+			options,
+			timeout,
+		);
+	} catch (error) {
+		throw toOperationError(error, request, options, timeout);
+	}
+}
+
+export async function putItemWithAuthorization<Result, Mutation>(
+	url: URL,
+	authorization: Authorizer,
+	item?: Mutation,
+	options?: OperationOptions,
+): Promise<Result> {
+	const request = describeRequest("PUT", url, options);
+	const timeout = startTimeout(options);
+
+	try {
+		const response = await send(
 			url,
-			authorization({
+			authorization,
+			{
 				method: "PUT",
 				headers: defaultMutationRequestHeaders(),
 				body: item ? JSON.stringify(item) : undefined,
-			}),
+			},
+			options,
+			timeout,
 		);
 
 		if (response.ok) {
-			return await response.json();
+			return await untilAborted(response.json(), options, timeout);
 		}
 
-		throw await responseToHttpError(response);
+		throw await untilAborted(
+			responseToHttpError(response, request),
+			options,
+			timeout,
+		);
 	} catch (error) {
-		throw toHttpError(error);
+		throw toOperationError(error, request, options, timeout);
 	}
 }
 
 export async function deleteItemWithAuthorization<Result, Mutation>(
 	url: URL,
-	authorization: Authorization,
+	authorization: Authorizer,
 	item?: Mutation,
+	options?: OperationOptions,
 ): Promise<Result> {
-	try {
-		console.debug("DELETE item", { url, item });
+	const request = describeRequest("DELETE", url, options);
+	const timeout = startTimeout(options);
 
-		const response = await fetch(
+	try {
+		const response = await send(
 			url,
-			authorization({
+			authorization,
+			{
 				method: "DELETE",
 				headers: defaultRequestHeaders(),
 				body: item ? JSON.stringify(item) : undefined,
-			}),
+			},
+			options,
+			timeout,
 		);
 
 		if (response.ok) {
-			return (await jsonBody<Result>(response)) as Result;
+			return (await untilAborted(
+				jsonBody<Result>(response),
+				options,
+				timeout,
+			)) as Result;
 		}
 
-		throw await responseToHttpError(response);
+		throw await untilAborted(
+			responseToHttpError(response, request),
+			options,
+			timeout,
+		);
 	} catch (error) {
-		throw toHttpError(error);
+		throw toOperationError(error, request, options, timeout);
 	}
 }
@@ -0,0 +1,246 @@
+import { describe, expect, test, vi } from 'vitest';
+import { HttpError } from '../errors/http.js';
+import { PaginationTokenExpiredError } from '../errors/pagination.js';
+import { ValidationError } from '../errors/validation.js';
+import type { Pagination } from '../schema/pagination.js';
+import { type PaginationCheckpoint, Paginator } from './paginator.js';
+
+describe('Common Resources - Paginator', () => {
+  const pages: Record<string, { items: number[]; next: string | null }> = {
+    start: { items: [1, 2], next: 'b' },
+    b: { items: [3, 4], next: 'c' },
+    c: { items: [5], next: null },
+  };
+
+  function fetcher() {
+    return vi.fn(async (pagination: Pagination) => {
+      const page = pages[pagination.nextToken ?? 'start'];
+      return { items: page.items, pagination: { nextToken: page.next } };
+    });
+  }
+
+  test('should iterate every item across pages', async () => {
+    const fetchPage = fetcher();
+    const items: number[] = [];
+
+    for await (const item of new Paginator(fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls.map(([p]) => p.nextToken)).toEqual([
+      undefined,
+      'b',
+      'c',
+    ]);
+  });
+
+  test('should not request anything until iterated', () => {
+    const fetchPage = fetcher();
+
+    new Paginator(fetchPage);
+
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  test('should yield whole pages', async () => {
+    const collected: number[][] = [];
+
+    for await (const page of new Paginator(fetcher()).pages()) {
+      collected.push(page.items);
+    }
+
+    expect(collected).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  test('should keep the page size while threading the token', async () => {
+    const fetchPage = fetcher();
+
+    await new Paginator(fetchPage, { pageSize: 2 }).toArray();
+
+    expect(fetchPage.mock.calls.map(([p]) => p)).toEqual([
+      { pageSize: 2 },
+      { pageSize: 2, nextToken: 'b' },
+      { pageSize: 2, nextToken: 'c' },
+    ]);
+  });
+
+  test('should stop when the token is missing', async () => {
+    const fetchPage = vi.fn(async () => ({ items: ['only'] }));
+
+    expect(await new Paginator(fetchPage).toArray()).toEqual(['only']);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  test('toArray should only fetch the pages needed for the limit', async () => {
+    const fetchPage = fetcher();
+
+    expect(await new Paginator(fetchPage).toArray({ limit: 3 })).toEqual([
+      1, 2, 3,
+    ]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  test('first should return the first n items', async () => {
+    const fetchPage = fetcher();
+    const paginator = new Paginator(fetchPage);
+
+    expect(await paginator.first()).toEqual([1]);
+    expect(await paginator.first(0)).toEqual([]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  test('should propagate errors from the fetcher', async () => {
+    const paginator = new Paginator(async () => {
+      throw new Error('boom');
+    });
+
+    await expect(paginator.toArray()).rejects.toThrow('boom');
+  });
+
+  describe('checkpoints', () => {
+    const context = {
+      endpoint: 'https://api.example.com/v1/connections/crm/contact/1',
+      filters: { app: 'events' },
+    };
+
+    test('should expose a serializable checkpoint after each page', async () => {
+      const checkpoints: PaginationCheckpoint[] = [];
+      const paginator = new Paginator(fetcher(), { pageSize: 2 }, context);
+
+      expect(paginator.checkpoint).toEqual({
+        ...context,
+        pageSize: 2,
+        nextToken: undefined,
+        done: false,
+      });
+
+      await paginator
+        .onPage((_page, checkpoint) => {
+          checkpoints.push(JSON.parse(JSON.stringify(checkpoint)));
+        })
+        .toArray();
+
+      expect(checkpoints).toEqual([
+        { ...context, pageSize: 2, nextToken: 'b', done: false },
+        { ...context, pageSize: 2, nextToken: 'c', done: false },
+        { ...context, pageSize: 2, nextToken: null, done: true },
+      ]);
+      expect(paginator.checkpoint.done).toBe(true);
+    });
+
+    test('should only advance once a page has been consumed', async () => {
+      const hook = vi.fn();
+      const paginator = new Paginator(fetcher(), {}, context).onPage(hook);
+
+      expect(await paginator.first(3)).toEqual([1, 2, 3]);
+      expect(hook).toHaveBeenCalledTimes(1);
+      expect(paginator.checkpoint.nextToken).toBe('b');
+    });
+
+    test('should resume from a persisted checkpoint', async () => {
+      const fetchPage = fetcher();
+      const checkpoint: PaginationCheckpoint = JSON.parse(
+        JSON.stringify({ ...context, pageSize: 2, nextToken: 'b', done: false })
+      );
+
+      const items = await new Paginator(fetchPage, {}, context)
+        .resumeFrom(checkpoint)
+        .toArray();
+
+      expect(items).toEqual([3, 4, 5]);
+      expect(fetchPage.mock.calls[0][0]).toEqual({
+        pageSize: 2,
+        nextToken: 'b',
+      });
+    });
+
+    test('should not fetch anything when resuming a finished listing', async () => {
+      const fetchPage = fetcher();
+
+      const items = await new Paginator(fetchPage, {}, context)
+        .resumeFrom({ ...context, nextToken: null, done: true })
+        .toArray();
+
+      expect(items).toEqual([]);
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+
+    test('should reject checkpoints of another listing', () => {
+      const paginator = new Paginator(fetcher(), {}, context);
+
+      expect(() =>
+        paginator.resumeFrom({
+          ...context,
+          filters: { app: 'crm' },
+          done: false,
+        })
+      ).toThrow('does not match');
+    });
+
+    test('should raise a specific error when the token is rejected', async () => {
+      const rejection = new HttpError('Invalid token', {
+        statusCode: 400,
+        type: 'invalid_next_token',
+      });
+      const paginator = new Paginator(
+        async () => {
+          throw rejection;
+        },
+        {},
+        context
+      ).resumeFrom({ ...context, nextToken: 'stale', done: false });
+
+      const error = (await paginator.toArray().catch((e) => e)) as
+        PaginationTokenExpiredError;
+
+      expect(error).toBeInstanceOf(PaginationTokenExpiredError);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(400);
+      expect(error.cause).toBe(rejection);
+      expect(error.checkpoint.nextToken).toBe('stale');
+      expect(error.isRetryable).toBe(false);
+    });
+
+    test('should treat a 410 on a later page as an expired token', async () => {
+      const paginator = new Paginator(
+        async () => {
+          throw new HttpError('Gone', { statusCode: 410 });
+        },
+        {},
+        context
+      ).resumeFrom({ ...context, nextToken: 'stale', done: false });
+
+      await expect(paginator.toArray()).rejects.toBeInstanceOf(
+        PaginationTokenExpiredError
+      );
+    });
+
+    test('should keep other 400 errors on later pages as they are', async () => {
+      const rejection = new ValidationError('Invalid filter', {
+        statusCode: 400,
+        type: 'validation_error',
+        fields: { 'filter[app]': 'Unknown app' },
+      });
+      const paginator = new Paginator(
+        async () => {
+          throw rejection;
+        },
+        {},
+        context
+      ).resumeFrom({ ...context, nextToken: 'next', done: false });
+
+      await expect(paginator.toArray()).rejects.toBe(rejection);
+    });
+
+    test('should not treat first page failures as expired tokens', async () => {
+      const paginator = new Paginator(async () => {
+        throw new HttpError('Bad request', { statusCode: 400 });
+      });
+
+      await expect(paginator.toArray()).rejects.not.toBeInstanceOf(
+        PaginationTokenExpiredError
+      );
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { HttpError } from "../errors/http.js";
+import { PaginationTokenExpiredError } from "../errors/pagination.js";
+import type { PaginationCollection } from "../schema/collection.js";
+import type { Pagination } from "../schema/pagination.js";
+
+/**
+ * A rejected `nextToken` is answered with 410, or with a 400 whose error type
+ * names the token (`invalid_token`, `expired_next_token`, etc.)
+ */
+const EXPIRED_TOKEN_STATUS = 410;
+const INVALID_TOKEN_TYPE =
+	/^(?:(?:invalid|expired)_(?:next_|pagination_)?token|(?:next_|pagination_)?token_(?:invalid|expired))$/;
+
+/**
+ * Fetches a single page of a listing
+ */
+export type PageFetcher<T> = (
+	pagination: Pagination,
+) => Promise<PaginationCollection<T>>;
+
+/**
+ * Where a listing left off.  Plain JSON, so it can be persisted and passed to
+ * `resumeFrom` by a later run.
+ */
+export type PaginationCheckpoint = {
+	endpoint: string;
+	filters?: Record<string, string>;
+	pageSize?: Pagination["pageSize"];
+	nextToken?: Pagination["nextToken"];
+	/**
+	 * Every page has been consumed
+	 */
+	done: boolean;
+};
+
+export type PaginatorContext = {
+	endpoint: string;
+	filters?: Record<string, string>;
+};
+
+/**
+ * Called once each page has been consumed, with the checkpoint to resume from
+ */
+export type PageHook<T> = (
+	page: PaginationCollection<T>,
+	checkpoint: PaginationCheckpoint,
+) => void | Promise<void>;
+
+export type ToArrayOptions = {
+	/**
+	 * Stop once this many items have been collected
+	 */
+	limit?: number;
+};
+
+/**
+ * Lazily walks every page of a listing, following `nextToken` until the
+ * server stops returning one.  Iterating yields items; `pages()` yields whole
+ * pages.  Nothing is requested until iteration starts.
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+	private readonly hooks: PageHook<T>[] = [];
+	private current: PaginationCheckpoint;
+
+	public constructor(
+		private readonly fetchPage: PageFetcher<T>,
+		private readonly pagination: Pagination = {},
+		private readonly context: PaginatorContext = { endpoint: "" },
+	) {
+		this.current = this.toCheckpoint(pagination, false);
+	}
+
+	/**
+	 * The position after the last consumed page
+	 */
+	public get checkpoint(): PaginationCheckpoint {
+		return { ...this.current };
+	}
+
+	/**
+	 * Registers a hook called after each page has been consumed, e.g. to persist
+	 * the checkpoint
+	 */
+	public onPage(hook: PageHook<T>): this {
+		this.hooks.push(hook);
+		return this;
+	}
+
+	/**
+	 * A paginator for the same listing, continuing where the checkpoint left off
+	 */
+	public resumeFrom(checkpoint: PaginationCheckpoint): Paginator<T> {
+		if (
+			checkpoint.endpoint !== this.context.endpoint ||
+			!sameFilters(checkpoint.filters, this.context.filters)
+		) {
+			throw new Error(
+				`Checkpoint for ${checkpoint.endpoint} does not match the listing ${this.context.endpoint}`,
+			);
+		}
+
+		const paginator = new Paginator(
+			checkpoint.done ? async () => ({ items: [] }) : this.fetchPage,
+			{ pageSize: checkpoint.pageSize, nextToken: checkpoint.nextToken },
+			this.context,
+		);
+		paginator.hooks.push(...this.hooks);
+
+		return paginator;
+	}
+
+	public async *pages(): AsyncGenerator<PaginationCollection<T>, void> {
+		let pagination = this.pagination;
+
+		while (true) {
+			const page = await this.fetch(pagination);
+
+			yield page;
+
+			const nextToken = page.pagination?.nextToken;
+
+			pagination = { ...pagination, nextToken };
+			this.current = this.toCheckpoint(pagination, !nextToken);
+
+			for (const hook of this.hooks) {
+				await hook(page, this.checkpoint);
+			}
+
+			if (!nextToken) {
+				return;
+			}
+		}
+	}
+
+	public async *[Symbol.asyncIterator](): AsyncGenerator<T, void> {
+		for await (const page of this.pages()) {
+			yield* page.items;
+		}
+	}
+
+	/**
+	 * Collects items across pages; only the pages needed to reach the limit are
+	 * requested
+	 */
+	public async toArray(options?: ToArrayOptions): Promise<T[]> {
+		const limit = options?.limit ?? Number.POSITIVE_INFINITY;
+		const items: T[] = [];
+
+		if (limit <= 0) {
+			return items;
+		}
+
+		for await (const item of this) {
+			items.push(item);
+
+			if (items.length >= limit) {
+				break;
+			}
+		}
+
+		return items;
+	}
+
+	public first(count = 1): Promise<T[]> {
+		return this.toArray({ limit: count });
+	}
+
+	private async fetch(
+		pagination: Pagination,
+	): Promise<PaginationCollection<T>> {
+		try {
+			return await this.fetchPage(pagination);
+		} catch (error) {
+			if (
+				pagination.nextToken &&
+				error instanceof HttpError &&
+				isRejectedToken(error)
+			) {
+				throw new PaginationTokenExpiredError(undefined, {
+					statusCode: error.statusCode,
+					trace: error.trace,
+					request: error.request,
+					cause: error,
+					checkpoint: this.toCheckpoint(pagination, false),
+				});
+			}
+
+			throw error;
+		}
+	}
+
+	private toCheckpoint(
+		pagination: Pagination,
+		done: boolean,
+	): PaginationCheckpoint {
+		return {
+			endpoint: this.context.endpoint,
+			filters: this.context.filters,
+			pageSize: pagination.pageSize,
+			nextToken: pagination.nextToken,
+			done,
+		};
+	}
+}
+
+function sameFilters(
+	a: Record<string, string> = {},
+	b: Record<string, string> = {},
+): boolean {
+	const defined = (filters: Record<string, string>) =>
+		Object.keys(filters).filter((key) => filters[key] !== undefined);
+	const keys = defined(a);
+
+	return (
+		keys.length === defined(b).length && keys.every((key) => a[key] === b[key])
+	);
+}
+
+function isRejectedToken(error: HttpError): boolean {
+	return (
+		error.statusCode === EXPIRED_TOKEN_STATUS ||
+		(error.statusCode === 400 && INVALID_TOKEN_TYPE.test(error.type))
+	);
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest';
+import { forEachWithConcurrency } from './pool.js';
+
+describe('Common Resources - Pool', () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+  test('should run every item with bounded concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    const seen: number[] = [];
+
+    await forEachWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      seen.push(item);
+      running--;
+    });
+
+    expect(seen.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(peak).toBe(3);
+  });
+
+  test('should stop starting items after a failure and rethrow it', async () => {
+    const started: number[] = [];
+
+    await expect(
+      forEachWithConcurrency([1, 2, 3, 4, 5], 1, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error('boom');
+        }
+      })
+    ).rejects.toThrow('boom');
+    expect(started).toEqual([1, 2]);
+  });
+
+  test('should reject an invalid concurrency', async () => {
+    await expect(
+      forEachWithConcurrency([1], 0, async () => undefined)
+    ).rejects.toThrow('concurrency must be a positive integer, received 0');
+  });
+
+  test('should pull from async iterables and stop once aborted', async () => {
+    const controller = new AbortController();
+    let closed = false;
+    async function* generate() {
+      try {
+        for (let item = 1; ; item++) {
+          yield item;
+        }
+      } finally {
+        closed = true;
+      }
+    }
+    const seen: number[] = [];
+
+    await forEachWithConcurrency(
+      generate(),
+      2,
+      async (item) => {
+        seen.push(item);
+        if (item === 5) {
+          controller.abort();
+        }
+      },
+      controller.signal
+    );
+
+    expect(seen.slice(0, 5)).toEqual([1, 2, 3, 4, 5]);
+    expect(seen.length).toBeLessThanOrEqual(6);
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+export const DEFAULT_CONCURRENCY = 8;
+
+/**
+ * Runs the task for every item with at most `concurrency` in flight.  The
+ * first rejection stops further items from starting and is rethrown once the
+ * running tasks settle; an aborted signal stops further items quietly.
+ */
+export async function forEachWithConcurrency<T>(
+	items: Iterable<T> | AsyncIterable<T>,
+	concurrency: number,
+	task: (item: T) => Promise<void>,
+	signal?: AbortSignal,
+): Promise<void> {
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		throw new Error(
+			`concurrency must be a positive integer, received ${concurrency}`,
+		);
+	}
+
+	const iterator =
+		Symbol.asyncIterator in items
+			? items[Symbol.asyncIterator]()
+			: items[Symbol.iterator]();
+	let stopped = false;
+
+	const worker = async () => {
+		while (!stopped && !signal?.aborted) {
+			const next = await iterator.next();
+
+			if (next.done) {
+				return;
+			}
+
+			try {
+				await task(next.value);
+			} catch (error) {
+				stopped = true;
+				throw error;
+			}
+		}
+	};
+
+	const results = await Promise.allSettled(
+		Array.from({ length: concurrency }, worker),
+	);
+
+	if (stopped || signal?.aborted) {
+		await iterator.return?.();
+	}
+
+	const failure = results.find((result) => result.status === "rejected");
+
+	if (failure) {
+		throw failure.reason;
+	}
+}
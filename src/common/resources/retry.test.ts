@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'vitest';
+import {
+  isIdempotentMethod,
+  parseRetryAfter,
+  type RetryPolicy,
+  RetryPolicySchema,
+  retryDelay,
+  shouldRetry,
+} from './retry.js';
+
+describe('Common Resources - Retry', () => {
+  const policy = (props = {}): RetryPolicy => RetryPolicySchema.parse(props);
+
+  const response = (status: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status, headers });
+
+  describe('RetryPolicySchema', () => {
+    test('should apply defaults', () => {
+      expect(policy()).toEqual({
+        maxAttempts: 3,
+        baseDelayMs: 200,
+        maxDelayMs: 20_000,
+        retryOn: [429, 502, 503, 504],
+        retryNonIdempotent: false,
+      });
+    });
+
+    test('should reject less than one attempt', () => {
+      expect(RetryPolicySchema.safeParse({ maxAttempts: 0 }).success).toBe(false);
+    });
+
+    test('should reject a non-function hook', () => {
+      expect(RetryPolicySchema.safeParse({ onAttempt: 'nope' }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('isIdempotentMethod', () => {
+    test('should treat GET, PUT and DELETE as idempotent', () => {
+      expect(isIdempotentMethod('GET')).toBe(true);
+      expect(isIdempotentMethod('put')).toBe(true);
+      expect(isIdempotentMethod('DELETE')).toBe(true);
+      expect(isIdempotentMethod()).toBe(true);
+    });
+
+    test('should not treat POST or PATCH as idempotent', () => {
+      expect(isIdempotentMethod('POST')).toBe(false);
+      expect(isIdempotentMethod('PATCH')).toBe(false);
+    });
+  });
+
+  describe('shouldRetry', () => {
+    test('should retry configured status codes', () => {
+      for (const status of [429, 502, 503, 504]) {
+        expect(
+          shouldRetry(policy(), 'GET', 1, { response: response(status) })
+        ).toBe(true);
+      }
+    });
+
+    test('should not retry other status codes', () => {
+      expect(shouldRetry(policy(), 'GET', 1, { response: response(500) })).toBe(
+        false
+      );
+      expect(shouldRetry(policy(), 'GET', 1, { response: response(404) })).toBe(
+        false
+      );
+    });
+
+    test('should retry network errors', () => {
+      const error = new TypeError('fetch failed', {
+        cause: Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }),
+      });
+
+      expect(shouldRetry(policy(), 'GET', 1, { error })).toBe(true);
+    });
+
+    test('should not retry errors other than transport failures', () => {
+      for (const error of [
+        new RangeError('Invalid time value'),
+        new TypeError('request.headers is not iterable'),
+        new TypeError('fetch failed', {
+          cause: Object.assign(new Error('invalid header'), {
+            code: 'UND_ERR_INVALID_ARG',
+          }),
+        }),
+      ]) {
+        expect(shouldRetry(policy(), 'GET', 1, { error })).toBe(false);
+      }
+    });
+
+    test('should not retry aborted requests', () => {
+      const error = new DOMException('The operation was aborted', 'AbortError');
+
+      expect(shouldRetry(policy(), 'GET', 1, { error })).toBe(false);
+    });
+
+    test('should stop after the maximum attempts', () => {
+      expect(
+        shouldRetry(policy({ maxAttempts: 2 }), 'GET', 2, {
+          response: response(503),
+        })
+      ).toBe(false);
+    });
+
+    test('should only retry non-idempotent methods when opted in', () => {
+      const outcome = { response: response(503) };
+
+      expect(shouldRetry(policy(), 'POST', 1, outcome)).toBe(false);
+      expect(
+        shouldRetry(policy({ retryNonIdempotent: true }), 'POST', 1, outcome)
+      ).toBe(true);
+    });
+  });
+
+  describe('retryDelay', () => {
+    test('should stay within the exponential backoff ceiling', () => {
+      const retry = policy({ baseDelayMs: 100 });
+
+      for (let i = 0; i < 20; i++) {
+        expect(retryDelay(retry, 1)).toBeLessThanOrEqual(100);
+        expect(retryDelay(retry, 3)).toBeLessThanOrEqual(400);
+        expect(retryDelay(retry, 3)).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    test('should cap the backoff at maxDelayMs', () => {
+      const retry = policy({ baseDelayMs: 1_000, maxDelayMs: 1_500 });
+
+      for (let i = 0; i < 20; i++) {
+        expect(retryDelay(retry, 10)).toBeLessThanOrEqual(1_500);
+      }
+    });
+
+    test('should respect Retry-After', () => {
+      expect(
+        retryDelay(policy(), 1, response(429, { 'retry-after': '3' }))
+      ).toBe(3_000);
+    });
+
+    test('should cap Retry-After at maxDelayMs', () => {
+      expect(
+        retryDelay(
+          policy({ maxDelayMs: 1_000 }),
+          1,
+          response(503, { 'retry-after': '120' })
+        )
+      ).toBe(1_000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    test('should parse delay seconds', () => {
+      expect(parseRetryAfter('5')).toBe(5_000);
+      expect(parseRetryAfter(' 0 ')).toBe(0);
+    });
+
+    test('should parse HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00.000Z');
+
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10_000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+    });
+
+    test('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { isTransportError } from "./transport.js";
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+export type RetryAttempt = {
+	attempt: number;
+	method: string;
+	url: URL;
+	status?: number;
+	error?: unknown;
+	/**
+	 * Delay before the next attempt, when another attempt will be made
+	 */
+	delayMs?: number;
+	willRetry: boolean;
+};
+
+export const RetryPolicySchema = z.object({
+	maxAttempts: z.number().int().min(1).default(3),
+	baseDelayMs: z.number().min(0).default(200),
+	maxDelayMs: z.number().min(0).default(20_000),
+	retryOn: z.array(z.number().int()).default([429, 502, 503, 504]),
+	retryNonIdempotent: z.boolean().default(false),
+	onAttempt: z
+		.custom<(attempt: RetryAttempt) => void>(
+			(value) => typeof value === "function",
+			{ message: "onAttempt must be a function" },
+		)
+		.optional(),
+});
+export type RetryPolicyProps = z.input<typeof RetryPolicySchema>;
+export type RetryPolicy = z.output<typeof RetryPolicySchema>;
+
+/**
+ * A single attempt, as seen by the retry policy.  Either the response received
+ * or the error thrown by the transport.
+ */
+export type AttemptOutcome =
+	| { response: Response; error?: undefined }
+	| { response?: undefined; error: unknown };
+
+export function isIdempotentMethod(method = "GET"): boolean {
+	return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+export function shouldRetry(
+	policy: RetryPolicy,
+	method: string | undefined,
+	attempt: number,
+	outcome: AttemptOutcome,
+): boolean {
+	if (attempt >= policy.maxAttempts) {
+		return false;
+	}
+
+	if (!policy.retryNonIdempotent && !isIdempotentMethod(method)) {
+		return false;
+	}
+
+	if (outcome.response) {
+		return policy.retryOn.includes(outcome.response.status);
+	}
+
+	return isTransportError(outcome.error);
+}
+
+/**
+ * Exponential backoff with full jitter, unless the server asked for a specific
+ * delay through the `Retry-After` header.
+ */
+export function retryDelay(
+	policy: RetryPolicy,
+	attempt: number,
+	response?: Response,
+): number {
+	const retryAfter = parseRetryAfter(response?.headers?.get("retry-after"));
+
+	if (retryAfter !== undefined) {
+		return Math.min(retryAfter, policy.maxDelayMs);
+	}
+
+	const ceiling = Math.min(
+		policy.maxDelayMs,
+		policy.baseDelayMs * 2 ** (attempt - 1),
+	);
+
+	return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into
+ * milliseconds
+ */
+export function parseRetryAfter(
+	value: string | null | undefined,
+	now = Date.now(),
+): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value.trim()) * 1000;
+	}
+
+	const date = Date.parse(value);
+
+	if (Number.isNaN(date)) {
+		return undefined;
+	}
+
+	return Math.max(0, date - now);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const abort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", abort);
+			resolve();
+		}, ms);
+
+		signal?.addEventListener("abort", abort, { once: true });
+	});
+}
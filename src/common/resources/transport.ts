@@ -0,0 +1,43 @@
+/**
+ * Sends a request and resolves with the response.  The global `fetch` satisfies
+ * this signature, as do undici's `fetch`, proxy-aware fetch implementations and
+ * test doubles.
+ */
+export type Transport = (url: URL, request: RequestInit) => Promise<Response>;
+
+// Node (undici) attaches the socket error as `cause`; browsers only set the message
+const TRANSPORT_ERROR_CODES = [
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"EPIPE",
+	"ETIMEDOUT",
+	"ENOTFOUND",
+	"EAI_AGAIN",
+	"ENETUNREACH",
+	"EHOSTUNREACH",
+	"UND_ERR_SOCKET",
+	"UND_ERR_CONNECT_TIMEOUT",
+	"UND_ERR_HEADERS_TIMEOUT",
+	"UND_ERR_BODY_TIMEOUT",
+	"UND_ERR_CLOSED",
+];
+const TRANSPORT_ERROR_MESSAGE =
+	/^(fetch failed|failed to fetch|load failed|networkerror when attempting to fetch resource\.?)$/i;
+
+/**
+ * The `TypeError` fetch rejects with when the connection fails (socket resets,
+ * DNS failures, etc.), as opposed to a bug in middleware, an auth strategy or
+ * the transport itself, or an aborted request
+ */
+export function isTransportError(error: unknown): error is TypeError {
+	if (!(error instanceof TypeError)) {
+		return false;
+	}
+
+	const code = (error.cause as { code?: unknown } | undefined)?.code;
+
+	return typeof code === "string"
+		? TRANSPORT_ERROR_CODES.includes(code)
+		: TRANSPORT_ERROR_MESSAGE.test(error.message);
+}
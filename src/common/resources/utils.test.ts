@@ -1,7 +1,19 @@
 import { z } from 'zod';
 import { describe, expect, test, vi } from 'vitest';
 import { HttpError } from '../errors/http.js';
-import { ValidationError } from '../errors/validation.js';
+import { NetworkError } from '../errors/network.js';
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  ServerError,
+} from '../errors/status.js';
+import {
+  ResponseValidationError,
+  ValidationError,
+} from '../errors/validation.js';
 import {
   addPaginationToURL,
   defaultMutationRequestHeaders,
@@ -28,6 +40,52 @@ describe('Common Resources - Utils', () => {
 
       expect(() => parseEgressSchema(mockError)).toThrow();
     });
+
+    test('should throw a ResponseValidationError with the offending values', () => {
+      const schema = z.object({
+        items: z.array(z.object({ status: z.enum(['active', 'inactive']) })),
+      });
+      const data = { items: [{ status: 'active' }, { status: 'archived' }] };
+
+      let error: unknown;
+      try {
+        parseEgressSchema(schema.safeParse(data), {
+          endpoint: 'https://api.example.com/v1/apps',
+        }, data);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error).toBeInstanceOf(HttpError);
+
+      const validation = error as ResponseValidationError;
+      expect(validation.endpoint).toBe('https://api.example.com/v1/apps');
+      expect(validation.issues).toEqual([
+        {
+          path: 'items.1.status',
+          message: expect.any(String),
+          value: 'archived',
+        },
+      ]);
+      expect(validation.data).toBe(data);
+      expect(validation.message).toContain('server contract may have changed');
+      expect(validation.isRetryable).toBe(false);
+    });
+
+    test('should report failures to the logger instead of the console', () => {
+      const warn = vi.spyOn(console, 'warn');
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+      expect(() =>
+        parseEgressSchema(z.string().safeParse(123), { logger })
+      ).toThrow();
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to parse egress payload',
+        expect.objectContaining({ error: expect.any(String) })
+      );
+      expect(warn).not.toHaveBeenCalled();
+    });
   });
 
   describe('parseIngressSchema', () => {
@@ -44,6 +102,31 @@ describe('Common Resources - Utils', () => {
 
       expect(() => parseIngressSchema(mockError)).toThrow();
     });
+
+    test('should throw a ValidationError with a fields map', () => {
+      const schema = z.object({ name: z.string(), age: z.number() });
+
+      let error: unknown;
+      try {
+        parseIngressSchema(schema.safeParse({ name: 1, age: 'x' }));
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).statusCode).toBe(400);
+      expect(Object.keys((error as ValidationError).fields)).toEqual([
+        'name',
+        'age',
+      ]);
+    });
+
+    test('should not write to the console', () => {
+      const warn = vi.spyOn(console, 'warn');
+
+      expect(() => parseIngressSchema(z.string().safeParse(123))).toThrow();
+      expect(warn).not.toHaveBeenCalled();
+    });
   });
 
   describe('defaultRequestHeaders', () => {
@@ -122,14 +205,21 @@ describe('Common Resources - Utils', () => {
   });
 
   describe('responseToHttpError', () => {
+    const jsonResponse = (
+      status: number,
+      body: unknown,
+      headers: Record<string, string> = {}
+    ) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json', ...headers },
+      });
+
     test('should handle authorization errors', async () => {
-      const mockResponse = {
-        status: 401,
-        json: vi.fn().mockResolvedValue({
-          error: 'unauthorized',
-          error_description: 'Invalid token',
-        }),
-      } as unknown as Response;
+      const mockResponse = jsonResponse(401, {
+        error: 'unauthorized',
+        error_description: 'Invalid token',
+      });
 
       const error = await responseToHttpError(mockResponse);
 
@@ -140,13 +230,10 @@ describe('Common Resources - Utils', () => {
     });
 
     test('should handle 403 authorization errors', async () => {
-      const mockResponse = {
-        status: 403,
-        json: vi.fn().mockResolvedValue({
-          error: 'forbidden',
-          error_description: 'Access denied',
-        }),
-      } as unknown as Response;
+      const mockResponse = jsonResponse(403, {
+        error: 'forbidden',
+        error_description: 'Access denied',
+      });
 
       const error = await responseToHttpError(mockResponse);
 
@@ -157,10 +244,7 @@ describe('Common Resources - Utils', () => {
     });
 
     test('should handle authorization errors with default message', async () => {
-      const mockResponse = {
-        status: 401,
-        json: vi.fn().mockResolvedValue({}),
-      } as unknown as Response;
+      const mockResponse = jsonResponse(401, {});
 
       const error = await responseToHttpError(mockResponse);
 
@@ -171,14 +255,11 @@ describe('Common Resources - Utils', () => {
     });
 
     test('should handle validation errors with fields', async () => {
-      const mockResponse = {
-        status: 400,
-        json: vi.fn().mockResolvedValue({
-          error: 'validation_error',
-          error_description: 'Validation failed',
-          fields: { email: 'Invalid email format' },
-        }),
-      } as unknown as Response;
+      const mockResponse = jsonResponse(400, {
+        error: 'validation_error',
+        error_description: 'Validation failed',
+        fields: { email: 'Invalid email format' },
+      });
 
       const error = await responseToHttpError(mockResponse);
 
@@ -190,13 +271,10 @@ describe('Common Resources - Utils', () => {
     });
 
     test('should handle generic HTTP errors', async () => {
-      const mockResponse = {
-        status: 500,
-        json: vi.fn().mockResolvedValue({
-          error: 'internal_error',
-          error_description: 'Something went wrong',
-        }),
-      } as unknown as Response;
+      const mockResponse = jsonResponse(500, {
+        error: 'internal_error',
+        error_description: 'Something went wrong',
+      });
 
       const error = await responseToHttpError(mockResponse);
 
@@ -204,6 +282,187 @@ describe('Common Resources - Utils', () => {
       expect(error.message).toBe('Something went wrong');
       expect(error.statusCode).toBe(500);
     });
+
+    test.each([
+      [401, AuthenticationError],
+      [403, PermissionDeniedError],
+      [404, NotFoundError],
+      [409, ConflictError],
+      [429, RateLimitError],
+      [500, ServerError],
+      [503, ServerError],
+    ])('should map status %i to a typed error', async (status, ErrorClass) => {
+      const mockResponse = jsonResponse(status, {
+        error_description: 'Failed',
+      });
+
+      const error = await responseToHttpError(mockResponse);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(status);
+    });
+
+    test('should keep the retry-after delay of rate limit errors', async () => {
+      const mockResponse = jsonResponse(
+        429,
+        { error: 'rate_limited' },
+        { 'retry-after': '3' }
+      );
+
+      const error = await responseToHttpError(mockResponse);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterMs).toBe(3_000);
+      expect(error.type).toBe('rate_limited');
+      expect(error.isRetryable).toBe(true);
+    });
+
+    test('should keep the trace, body and request', async () => {
+      const mockResponse = jsonResponse(409, {
+        error: 'conflict',
+        error_description: 'Already exists',
+        trace: 'trace-abc',
+        id: 'app-1',
+      });
+      const request = { method: 'PUT', url: 'https://api.example.com/v1/apps' };
+
+      const error = await responseToHttpError(mockResponse, request);
+
+      expect(error.trace).toBe('trace-abc');
+      expect(error.body).toEqual({ id: 'app-1' });
+      expect(error.request).toEqual(request);
+    });
+
+    test('should keep the status of HTML error pages', async () => {
+      const response = new Response('<html><body>Bad Gateway</body></html>', {
+        status: 502,
+        statusText: 'Bad Gateway',
+        headers: { 'content-type': 'text/html' },
+      });
+
+      const error = await responseToHttpError(response);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.statusCode).toBe(502);
+      expect(error.message).toBe('Bad Gateway');
+      expect(error.rawBody).toBe('<html><body>Bad Gateway</body></html>');
+    });
+
+    test('should keep the status of empty responses', async () => {
+      const response = new Response(null, { status: 504 });
+
+      const error = await responseToHttpError(response);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.statusCode).toBe(504);
+      expect(error.rawBody).toBeUndefined();
+    });
+
+    test('should truncate large raw bodies', async () => {
+      const response = new Response('x'.repeat(5_000), {
+        status: 500,
+        headers: { 'content-type': 'text/plain' },
+      });
+
+      const error = await responseToHttpError(response);
+
+      expect(error.rawBody).toHaveLength(1_000 + '…[truncated]'.length);
+      expect(error.rawBody?.endsWith('…[truncated]')).toBe(true);
+    });
+
+    test('should fall back to text when a JSON body is malformed', async () => {
+      const response = new Response('{"error":', {
+        status: 500,
+        headers: { 'content-type': 'application/json' },
+      });
+
+      const error = await responseToHttpError(response);
+
+      expect(error.statusCode).toBe(500);
+      expect(error.rawBody).toBe('{"error":');
+    });
+
+    test('should parse JSON bodies from real responses', async () => {
+      const response = new Response(
+        JSON.stringify({
+          error: 'not_found',
+          error_description: 'App not found',
+          trace: 'trace-1',
+        }),
+        { status: 404, headers: { 'content-type': 'application/json' } }
+      );
+
+      const error = await responseToHttpError(response);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.message).toBe('App not found');
+      expect(error.type).toBe('not_found');
+      expect(error.trace).toBe('trace-1');
+      expect(error.rawBody).toBeUndefined();
+    });
+
+    test('should support problem+json documents', async () => {
+      const response = new Response(
+        JSON.stringify({
+          type: 'https://example.com/problems/conflict',
+          title: 'Conflict',
+          status: 409,
+          detail: 'The app already exists',
+          instance: '/v1/apps/app-1',
+          trace: 'trace-2',
+        }),
+        {
+          status: 409,
+          headers: { 'content-type': 'application/problem+json' },
+        }
+      );
+
+      const error = await responseToHttpError(response);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.message).toBe('The app already exists');
+      expect(error.type).toBe('https://example.com/problems/conflict');
+      expect(error.trace).toBe('trace-2');
+      expect(error.body).toEqual({ instance: '/v1/apps/app-1' });
+    });
+
+    test('should fall back to the problem title', async () => {
+      const response = new Response(
+        JSON.stringify({ title: 'Invalid request', fields: { name: 'Required' } }),
+        {
+          status: 400,
+          headers: { 'content-type': 'application/problem+json' },
+        }
+      );
+
+      const error = await responseToHttpError(response);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toBe('Invalid request');
+      expect(error.type).toBe('Invalid request');
+    });
+
+    test('should keep the status when the body cannot be parsed', async () => {
+      const mockResponse = new Response('Invalid JSON', {
+        status: 503,
+        headers: { 'content-type': 'application/json' },
+      });
+
+      const error = await responseToHttpError(mockResponse);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.statusCode).toBe(503);
+    });
+
+    test('should keep plain HttpError for other statuses', async () => {
+      const mockResponse = jsonResponse(418, { error_description: 'Teapot' });
+
+      const error = await responseToHttpError(mockResponse);
+
+      expect(error.constructor).toBe(HttpError);
+      expect(error.statusCode).toBe(418);
+    });
   });
 
   describe('toHttpError', () => {
@@ -229,6 +488,33 @@ describe('Common Resources - Utils', () => {
       expect(result.message).toBe('Custom error');
     });
 
+    test('should chain the original error as cause', () => {
+      const error = new Error('Test message');
+      const request = { method: 'GET', url: 'https://api.example.com/' };
+      const result = toHttpError(error, request);
+
+      expect(result.cause).toBe(error);
+      expect(result.request).toEqual(request);
+    });
+
+    test('should convert fetch failures to NetworkError', () => {
+      const result = toHttpError(new TypeError('fetch failed'));
+
+      expect(result).toBeInstanceOf(NetworkError);
+      expect(result.message).toBe('fetch failed');
+      expect(result.isRetryable).toBe(true);
+    });
+
+    test('should keep other TypeErrors as plain, non-retryable HttpErrors', () => {
+      const bug = new TypeError("Cannot read properties of undefined (reading 'foo')");
+      const result = toHttpError(bug);
+
+      expect(result).not.toBeInstanceOf(NetworkError);
+      expect(result).toBeInstanceOf(HttpError);
+      expect(result.cause).toBe(bug);
+      expect(result.isRetryable).toBe(false);
+    });
+
     test('should handle unknown error types', () => {
       const result = toHttpError('string error');
 
@@ -1,37 +1,132 @@
 import type { z } from "zod";
-import { HttpError } from "../errors/http.js";
-import { ValidationError } from "../errors/validation.js";
+import {
+	HttpError,
+	type HttpErrorOptions,
+	type HttpErrorRequest,
+} from "../errors/http.js";
+import { NetworkError } from "../errors/network.js";
+import {
+	AuthenticationError,
+	ConflictError,
+	NotFoundError,
+	PermissionDeniedError,
+	RateLimitError,
+	ServerError,
+} from "../errors/status.js";
+import {
+	ResponseValidationError,
+	type ResponseValidationIssue,
+	ValidationError,
+} from "../errors/validation.js";
+import type { Logger } from "../logger.js";
 import type { Pagination } from "../schema/pagination.js";
+import { parseRetryAfter } from "./retry.js";
+import { isTransportError } from "./transport.js";
+import type { AnyResponseValidation } from "./validation.js";
+
+export type ParseOptions = {
+	logger?: Logger;
+	/**
+	 * URL the payload was received from, reported on validation errors
+	 */
+	endpoint?: string;
+	/**
+	 * How strictly responses are validated (defaults to strict)
+	 */
+	validation?: AnyResponseValidation;
+};
 
 /**
- * Parse schema data that is calling the API
+ * Parse schema data returned by the API.  Failures become a
+ * `ResponseValidationError` carrying the offending paths, values and the raw
+ * payload.
  */
-export function parseEgressSchema<S>(output: z.ZodSafeParseResult<S>): S {
+export function parseEgressSchema<S>(
+	output: z.ZodSafeParseResult<S>,
+	options?: ParseOptions,
+	data?: unknown,
+): S {
 	if (!output.success) {
-		console.warn(`Failed to parse egress payload: ${output.error.message}`, {
-			error: output.error,
+		const issues = output.error.issues.map(
+			(issue): ResponseValidationIssue => ({
+				path: issuePath(issue.path),
+				message: issue.message,
+				value: valueAtPath(data, issue.path),
+			}),
+		);
+
+		options?.logger?.warn("Failed to parse egress payload", {
+			error: output.error.message,
+			endpoint: options.endpoint,
 		});
 
-		throw output.error;
+		throw new ResponseValidationError(
+			`The response${options?.endpoint ? ` from ${options.endpoint}` : ""} did not match the expected schema; the server contract may have changed (${issues
+				.map((issue) => `${issue.path}: ${issue.message}`)
+				.join("; ")})`,
+			{
+				endpoint: options?.endpoint,
+				issues,
+				data,
+				cause: output.error,
+			},
+		);
 	}
 
 	return output.data;
 }
 
 /**
- * Parse schema data that is returning from the API
+ * Parse schema data sent to the API.  Failures become a
+ * client-side `ValidationError` with the same `fields` shape the server uses.
  */
-export function parseIngressSchema<S>(output: z.ZodSafeParseResult<S>): S {
+export function parseIngressSchema<S>(
+	output: z.ZodSafeParseResult<S>,
+	options?: ParseOptions,
+): S {
 	if (!output.success) {
-		console.warn(`Failed to parse ingress payload: ${output.error.message}`, {
-			error: output.error,
+		options?.logger?.warn("Failed to parse ingress payload", {
+			error: output.error.message,
+		});
+
+		const fields: Record<string, string> = {};
+
+		for (const issue of output.error.issues) {
+			fields[issuePath(issue.path)] ??= issue.message;
+		}
+
+		throw new ValidationError("The request payload is invalid", {
+			statusCode: 400,
+			type: "validation",
+			fields,
+			cause: output.error,
 		});
-		throw output.error;
 	}
 
 	return output.data;
 }
 
+export function issuePath(path: readonly PropertyKey[]): string {
+	return path.length ? path.map(String).join(".") : "(root)";
+}
+
+export function valueAtPath(
+	data: unknown,
+	path: readonly PropertyKey[],
+): unknown {
+	let value = data;
+
+	for (const key of path) {
+		if (value === null || typeof value !== "object") {
+			return undefined;
+		}
+
+		value = (value as Record<PropertyKey, unknown>)[key];
+	}
+
+	return value;
+}
+
 export function defaultRequestHeaders(): Headers {
 	return new Headers([["accept", "application/json"]]);
 }
@@ -82,26 +177,47 @@ export function addFiltersToURL(
 	return url;
 }
 
+/**
+ * Maximum length of a non-JSON error body kept on the error
+ */
+const RAW_BODY_LIMIT = 1_000;
+
+type ErrorBody = {
+	error?: string;
+	error_description?: string;
+	trace?: string;
+	fields?: { [key: string]: string };
+	[key: string]: unknown;
+};
+
 export async function responseToHttpError(
 	response: Response,
+	request?: HttpErrorRequest,
 ): Promise<HttpError> {
-	const body = await response.json();
+	const { body, rawBody } = await readErrorBody(response);
 
 	// Authorization errors
 	if ([401, 403].includes(response.status)) {
-		return new HttpError(body?.error_description || "Unauthorized", {
+		const ErrorClass =
+			response.status === 401 ? AuthenticationError : PermissionDeniedError;
+
+		return new ErrorClass(body.error_description || "Unauthorized", {
 			statusCode: response.status,
-			type: body?.error || "authorization",
+			type: body.error || "authorization",
+			trace: body.trace,
+			rawBody,
+			request,
 		});
 	}
 
 	const {
 		error: type,
-		error_description: message,
+		error_description: description,
 		trace,
 		fields,
 		...data
 	} = body;
+	const message = description || response.statusText || undefined;
 
 	if (fields) {
 		return new ValidationError(message, {
@@ -109,26 +225,136 @@ export async function responseToHttpError(
 			type,
 			trace,
 			body: data,
+			request,
 			fields,
 		});
 	}
 
-	return new HttpError(message, {
+	return statusToHttpError(response, message, {
 		statusCode: response.status,
 		type,
 		trace,
 		body: data,
+		rawBody,
+		request,
 	});
 }
 
-export function toHttpError(error: unknown): HttpError {
+/**
+ * Reads an error body according to its content type.  JSON and
+ * `application/problem+json` documents are parsed; anything else (HTML error
+ * pages, empty gateway responses) is kept as truncated text.
+ */
+async function readErrorBody(
+	response: Response,
+): Promise<{ body: ErrorBody; rawBody?: string }> {
+	const contentType = response.headers.get("content-type") ?? "";
+	const text = await response.text().catch(() => "");
+
+	if (!text.trim()) {
+		return { body: {} };
+	}
+
+	if (!contentType || contentType.includes("json")) {
+		try {
+			const body: unknown = JSON.parse(text);
+
+			if (isObject(body)) {
+				return { body: toErrorBody(body, contentType) };
+			}
+		} catch (_error) {
+			// Not JSON after all; keep it as text
+		}
+	}
+
+	return {
+		body: {},
+		rawBody:
+			text.length > RAW_BODY_LIMIT
+				? `${text.slice(0, RAW_BODY_LIMIT)}…[truncated]`
+				: text,
+	};
+}
+
+/**
+ * Maps RFC 9457 problem details onto the `error`/`error_description` shape
+ */
+function toErrorBody(
+	body: Record<string, unknown>,
+	contentType: string,
+): ErrorBody {
+	const isProblem =
+		contentType.includes("application/problem+json") ||
+		(!("error" in body) &&
+			!("error_description" in body) &&
+			("title" in body || "detail" in body));
+
+	if (!isProblem) {
+		return body;
+	}
+
+	const { type, title, status: _status, detail, ...extensions } = body;
+
+	return {
+		...extensions,
+		error:
+			typeof type === "string" && type !== "about:blank"
+				? type
+				: optionalString(title),
+		error_description: optionalString(detail) ?? optionalString(title),
+	};
+}
+
+function optionalString(value: unknown): string | undefined {
+	return typeof value === "string" && value ? value : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function statusToHttpError(
+	response: Response,
+	message: string | undefined,
+	options: HttpErrorOptions,
+): HttpError {
+	switch (response.status) {
+		case 404:
+			return new NotFoundError(message, options);
+		case 409:
+			return new ConflictError(message, options);
+		case 429:
+			return new RateLimitError(message, {
+				...options,
+				retryAfterMs: parseRetryAfter(response.headers?.get("retry-after")),
+			});
+	}
+
+	if (response.status >= 500) {
+		return new ServerError(message, options);
+	}
+
+	return new HttpError(message, options);
+}
+
+/**
+ * Wraps any error as an `HttpError`, keeping the original as its `cause`
+ */
+export function toHttpError(
+	error: unknown,
+	request?: HttpErrorRequest,
+): HttpError {
 	if (error instanceof HttpError) {
 		return error;
 	}
 
+	if (isTransportError(error)) {
+		return new NetworkError(error.message, { cause: error, request });
+	}
+
 	if (error && typeof error === "object" && "message" in error) {
-		return new HttpError(String(error.message));
+		return new HttpError(String(error.message), { cause: error, request });
 	}
 
-	return new HttpError();
+	return new HttpError(undefined, { cause: error, request });
 }
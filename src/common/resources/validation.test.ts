@@ -0,0 +1,197 @@
+import { describe, expect, test, vi } from 'vitest';
+import { z } from 'zod';
+import { ResponseValidationError } from '../errors/validation.js';
+import { MondoAppConnect } from '../init.js';
+import { UNKNOWN } from '../schema/schema.js';
+import {
+  parseResponse,
+  ResponseValidation,
+  responseParseOptions,
+} from './validation.js';
+
+describe('Common Resources - Response validation', () => {
+  const schema = z.object({
+    name: z.string(),
+    status: z.enum(['enabled', 'disabled']),
+    target: z.object({
+      join: z.enum(['one', 'many']),
+    }),
+  });
+  const lenientSchema = z.object({
+    name: z.string(),
+    status: z.enum(['enabled', 'disabled', UNKNOWN]),
+    target: z.object({
+      join: z.enum(['one', 'many', UNKNOWN]),
+    }),
+  });
+
+  const logger = () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  });
+
+  describe('strict', () => {
+    test('should be the default', () => {
+      expect(() =>
+        parseResponse(schema, {
+          name: 'test',
+          status: 'paused',
+          target: { join: 'one' },
+        })
+      ).toThrow(ResponseValidationError);
+    });
+
+    test('should reject the unknown placeholder sent by the server', () => {
+      expect(() =>
+        parseResponse(
+          schema,
+          { name: 'test', status: UNKNOWN, target: { join: 'one' } },
+          { validation: ResponseValidation.STRICT },
+          lenientSchema
+        )
+      ).toThrow(ResponseValidationError);
+    });
+
+    test('should strip unknown fields', () => {
+      const result = parseResponse(
+        schema,
+        { name: 'test', status: 'enabled', target: { join: 'one' }, extra: 1 },
+        { validation: ResponseValidation.STRICT }
+      );
+
+      expect(result).not.toHaveProperty('extra');
+    });
+  });
+
+  describe('lenient', () => {
+    test('should replace unknown enum members and report the drift', () => {
+      const sink = logger();
+
+      const result = parseResponse(
+        schema,
+        { name: 'test', status: 'paused', target: { join: 'some' } },
+        {
+          validation: ResponseValidation.LENIENT,
+          logger: sink,
+          endpoint: 'https://api.example.com/v1/configurations',
+        },
+        lenientSchema
+      );
+
+      expect(result.status).toBe(UNKNOWN);
+      expect(result.target.join).toBe(UNKNOWN);
+      expect(sink.warn).toHaveBeenCalledWith(
+        'Response drifted from the expected schema',
+        {
+          endpoint: 'https://api.example.com/v1/configurations',
+          unknownValues: [
+            { path: 'status', value: 'paused' },
+            { path: 'target.join', value: 'some' },
+          ],
+          unknownFields: [],
+        }
+      );
+    });
+
+    test('should keep unknown fields', () => {
+      const sink = logger();
+
+      const result = parseResponse(
+        z.object({ items: z.array(schema) }),
+        {
+          items: [
+            {
+              name: 'test',
+              status: 'enabled',
+              target: { join: 'one', priority: 1 },
+              labels: ['a'],
+            },
+          ],
+        },
+        { validation: ResponseValidation.LENIENT, logger: sink }
+      );
+
+      expect(result.items[0]).toMatchObject({
+        labels: ['a'],
+        target: { join: 'one', priority: 1 },
+      });
+      expect(sink.warn).toHaveBeenCalledWith(
+        'Response drifted from the expected schema',
+        expect.objectContaining({
+          unknownFields: ['items.0.target.priority', 'items.0.labels'],
+        })
+      );
+    });
+
+    test('should not report payloads that match the schema', () => {
+      const sink = logger();
+
+      parseResponse(
+        schema,
+        { name: 'test', status: 'enabled', target: { join: 'many' } },
+        { validation: ResponseValidation.LENIENT, logger: sink }
+      );
+
+      expect(sink.warn).not.toHaveBeenCalled();
+    });
+
+    test('should still reject other failures', () => {
+      expect(() =>
+        parseResponse(
+          schema,
+          { name: 42, status: 'paused', target: { join: 'one' } },
+          { validation: ResponseValidation.LENIENT },
+          lenientSchema
+        )
+      ).toThrow(ResponseValidationError);
+    });
+
+    test('should not substitute without a lenient schema', () => {
+      expect(() =>
+        parseResponse(
+          schema,
+          { name: 'test', status: 'paused', target: { join: 'one' } },
+          { validation: ResponseValidation.LENIENT }
+        )
+      ).toThrow(ResponseValidationError);
+    });
+  });
+
+  describe('off', () => {
+    test('should return the payload as received', () => {
+      const data = { name: 42 };
+
+      expect(
+        parseResponse(schema, data, { validation: ResponseValidation.OFF })
+      ).toBe(data);
+    });
+  });
+
+  describe('responseParseOptions', () => {
+    test('should use the client settings', () => {
+      const instance = new MondoAppConnect({
+        accessToken: 'token',
+        responseValidation: 'lenient',
+      });
+      const url = new URL('https://api.example.com/v1/apps');
+
+      expect(responseParseOptions(instance, url)).toEqual({
+        logger: instance.logger,
+        endpoint: 'https://api.example.com/v1/apps',
+        validation: 'lenient',
+      });
+    });
+
+    test('should reject unknown modes', () => {
+      expect(
+        () =>
+          new MondoAppConnect({
+            accessToken: 'token',
+            responseValidation: 'loose' as any,
+          })
+      ).toThrow('Invalid configuration:');
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { z } from "zod";
+import type { MondoAppConnect } from "../init.js";
+import { UNKNOWN } from "../schema/schema.js";
+import {
+	issuePath,
+	type ParseOptions,
+	parseEgressSchema,
+	valueAtPath,
+} from "./utils.js";
+
+export const ResponseValidation = {
+	STRICT: "strict",
+	LENIENT: "lenient",
+	OFF: "off",
+} as const;
+export type AnyResponseValidation =
+	(typeof ResponseValidation)[keyof typeof ResponseValidation];
+
+export const ResponseValidationSchema = z.enum([
+	ResponseValidation.STRICT,
+	ResponseValidation.LENIENT,
+	ResponseValidation.OFF,
+]);
+
+type UnknownValue = {
+	path: string;
+	value: unknown;
+};
+
+/**
+ * Parse options for a response received by the client from the given URL
+ */
+export function responseParseOptions(
+	instance: MondoAppConnect,
+	url: URL,
+): ParseOptions {
+	return {
+		logger: instance.logger,
+		endpoint: url.toString(),
+		validation: instance.config.responseValidation,
+	};
+}
+
+/**
+ * Parse data returned by the API according to the validation mode:
+ *
+ * - `strict` rejects anything that does not match the schema
+ * - `lenient` parses with `lenientSchema` when given, replacing unknown enum
+ *   members with `unknown` where it accepts them, keeps unknown fields and
+ *   reports the drift to the logger
+ * - `off` returns the payload as received, without validation or transforms
+ */
+export function parseResponse<S extends z.ZodType, L extends z.ZodType = S>(
+	schema: S,
+	data: unknown,
+	options?: ParseOptions,
+	lenientSchema?: L,
+): z.output<S> | z.output<L> {
+	switch (options?.validation) {
+		case ResponseValidation.OFF:
+			return data as z.output<S>;
+		case ResponseValidation.LENIENT:
+			return parseLenient(lenientSchema ?? schema, data, options);
+		default:
+			return parseEgressSchema(schema.safeParse(data), options, data);
+	}
+}
+
+function parseLenient<S extends z.ZodType>(
+	schema: S,
+	data: unknown,
+	options: ParseOptions,
+): z.output<S> {
+	let result = schema.safeParse(data);
+	const unknownValues: UnknownValue[] = [];
+
+	if (!result.success) {
+		const issues = result.error.issues.filter(
+			(issue) =>
+				issue.code === "invalid_value" &&
+				issue.values.includes(UNKNOWN) &&
+				typeof valueAtPath(data, issue.path) === "string",
+		);
+
+		// Only retry when every failure is an enum member we can stand in for
+		if (issues.length === result.error.issues.length) {
+			const repaired = structuredClone(data);
+
+			for (const issue of issues) {
+				unknownValues.push({
+					path: issuePath(issue.path),
+					value: valueAtPath(data, issue.path),
+				});
+				setAtPath(repaired, issue.path, UNKNOWN);
+			}
+
+			result = schema.safeParse(repaired);
+		}
+	}
+
+	const output = parseEgressSchema(result, options, data);
+	const unknownFields: string[] = [];
+	const merged = withUnknownFields(data, output, [], unknownFields);
+
+	if (unknownValues.length || unknownFields.length) {
+		options.logger?.warn("Response drifted from the expected schema", {
+			endpoint: options.endpoint,
+			unknownValues,
+			unknownFields,
+		});
+	}
+
+	return merged as z.output<S>;
+}
+
+/**
+ * Copies fields the schema does not know about from the raw payload onto the
+ * parsed output, recording their paths
+ */
+function withUnknownFields(
+	raw: unknown,
+	parsed: unknown,
+	path: PropertyKey[],
+	unknownFields: string[],
+): unknown {
+	if (Array.isArray(raw) && Array.isArray(parsed)) {
+		return parsed.map((item, index) =>
+			withUnknownFields(raw[index], item, [...path, index], unknownFields),
+		);
+	}
+
+	if (!isPlainObject(raw) || !isPlainObject(parsed)) {
+		return parsed;
+	}
+
+	const result: Record<string, unknown> = { ...parsed };
+
+	for (const [key, value] of Object.entries(raw)) {
+		if (key in result) {
+			result[key] = withUnknownFields(
+				value,
+				result[key],
+				[...path, key],
+				unknownFields,
+			);
+		} else {
+			result[key] = value;
+			unknownFields.push(issuePath([...path, key]));
+		}
+	}
+
+	return result;
+}
+
+function setAtPath(
+	data: unknown,
+	path: readonly PropertyKey[],
+	value: unknown,
+): void {
+	const parent = valueAtPath(data, path.slice(0, -1));
+
+	if (parent !== null && typeof parent === "object") {
+		(parent as Record<PropertyKey, unknown>)[path[path.length - 1]] = value;
+	}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (value === null || typeof value !== "object") {
+		return false;
+	}
+
+	const prototype = Object.getPrototypeOf(value);
+
+	return prototype === Object.prototype || prototype === null;
+}
@@ -9,6 +9,13 @@ export const HandleSchema = z
 	.regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$|^[a-z][a-zA-Z0-9]+$/);
 export type Handle = z.infer<typeof HandleSchema>;
 
+/**
+ * Stands in for enum members this version of the SDK does not know about,
+ * when response validation is lenient
+ */
+export const UNKNOWN = "unknown" as const;
+export type Unknown = typeof UNKNOWN;
+
 export function normalizeUrlWithTokens(url: string | URL): string {
 	return String(url)
 		.replace(/%7B%7B/g, "{{")
@@ -4,11 +4,14 @@ import type { ConfigProps } from "./init.js";
 import { MondoAppConnect } from "./init.js";
 import type { Authorization } from "./resources/authorization.js";
 
-// Mock response interface
-export interface MockResponse {
-	ok: boolean;
-	status: number;
-	json: () => Promise<unknown>;
+// Mock responses are real `Response` objects, so error bodies are read as in production
+export type MockResponse = Response;
+
+function jsonResponse(data: unknown, status: number): Response {
+	return new Response(data === undefined ? null : JSON.stringify(data), {
+		status,
+		headers: { "content-type": "application/json" },
+	});
 }
 
 /**
@@ -279,20 +282,17 @@ export const MockHelpers = {
 	/**
 	 * Creates a mock fetch response
 	 */
-	createMockResponse: (data: unknown, status = 200): MockResponse => ({
-		ok: status >= 200 && status < 300,
-		status,
-		json: () => Promise.resolve(data),
-	}),
+	createMockResponse: (data: unknown, status = 200): MockResponse =>
+		jsonResponse(data, status),
 
 	/**
 	 * Creates a mock fetch response that rejects JSON parsing
 	 */
-	createMockResponseWithJsonError: (status = 200): MockResponse => ({
-		ok: status >= 200 && status < 300,
-		status,
-		json: () => Promise.reject(new Error("Invalid JSON")),
-	}),
+	createMockResponseWithJsonError: (status = 200): MockResponse =>
+		new Response("Invalid JSON", {
+			status,
+			headers: { "content-type": "application/json" },
+		}),
 
 	/**
 	 * Creates a mock authorization function
@@ -367,15 +367,8 @@ export const MockHelpers = {
 		error: string,
 		description: string,
 		status = 400,
-	): MockResponse => ({
-		ok: false,
-		status,
-		json: () =>
-			Promise.resolve({
-				error,
-				error_description: description,
-			}),
-	}),
+	): MockResponse =>
+		jsonResponse({ error, error_description: description }, status),
 
 	/**
 	 * Creates network error for fetch mocking
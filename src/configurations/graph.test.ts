@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest';
+import { findConfigurationPath } from './graph.js';
+
+const configuration = (
+  source: string,
+  target: string,
+  status: 'enabled' | 'disabled' = 'enabled'
+) => {
+  const entity = (node: string) => {
+    const [app, object] = node.split('/');
+    return {
+      app: { handle: app, name: app },
+      object: { handle: object, name: object },
+      join: 'one' as const,
+    };
+  };
+
+  return {
+    source: entity(source),
+    target: entity(target),
+    status,
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+};
+
+const node = (value: string) => {
+  const [app, object] = value.split('/');
+  return { app, object };
+};
+
+describe('Configurations - Graph', () => {
+  const hubAndSpoke = [
+    configuration('crm/contact', 'website/user'),
+    configuration('forum/member', 'website/user'),
+    configuration('website/user', 'events/registration'),
+  ];
+
+  test('should find the shortest path in either direction', () => {
+    expect(
+      findConfigurationPath(
+        hubAndSpoke,
+        node('crm/contact'),
+        node('forum/member'),
+        4
+      )
+    ).toEqual([node('crm/contact'), node('website/user'), node('forum/member')]);
+  });
+
+  test('should prefer a direct configuration over a longer path', () => {
+    expect(
+      findConfigurationPath(
+        [...hubAndSpoke, configuration('crm/contact', 'forum/member')],
+        node('crm/contact'),
+        node('forum/member'),
+        4
+      )
+    ).toEqual([node('crm/contact'), node('forum/member')]);
+  });
+
+  test('should respect the maximum depth', () => {
+    expect(
+      findConfigurationPath(
+        hubAndSpoke,
+        node('crm/contact'),
+        node('forum/member'),
+        1
+      )
+    ).toBeUndefined();
+  });
+
+  test('should not loop on cycles', () => {
+    const cyclic = [
+      configuration('a/x', 'b/x'),
+      configuration('b/x', 'c/x'),
+      configuration('c/x', 'a/x'),
+    ];
+
+    expect(
+      findConfigurationPath(cyclic, node('a/x'), node('d/x'), 10)
+    ).toBeUndefined();
+  });
+
+  test('should ignore disabled configurations', () => {
+    expect(
+      findConfigurationPath(
+        [configuration('crm/contact', 'website/user', 'disabled')],
+        node('crm/contact'),
+        node('website/user'),
+        4
+      )
+    ).toBeUndefined();
+  });
+
+  test('should return the start when it is the target', () => {
+    expect(
+      findConfigurationPath([], node('crm/contact'), node('crm/contact'), 1)
+    ).toEqual([node('crm/contact')]);
+  });
+});
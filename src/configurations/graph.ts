@@ -0,0 +1,92 @@
+import type { AppHandle } from "../apps/schema.js";
+import type { AppObjectHandle } from "../objects/schema.js";
+import { type ConfigurationPayload, ConfigurationStatus } from "./schema.js";
+
+/**
+ * An app object in the configuration graph
+ */
+export type ConfigurationNode = {
+	app: AppHandle;
+	object: AppObjectHandle;
+};
+
+/**
+ * The shortest chain of objects from `from` to `to`, both included, following
+ * enabled configurations in either direction.  Undefined when the objects are
+ * not connected within `maxDepth` hops.  Objects are visited once, so cycles
+ * in the graph are never followed.
+ */
+export function findConfigurationPath(
+	configurations: Iterable<ConfigurationPayload>,
+	from: ConfigurationNode,
+	to: ConfigurationNode,
+	maxDepth: number,
+): ConfigurationNode[] | undefined {
+	const edges = new Map<string, ConfigurationNode[]>();
+	const link = (a: ConfigurationNode, b: ConfigurationNode) => {
+		edges.set(nodeKey(a), [...(edges.get(nodeKey(a)) ?? []), b]);
+	};
+
+	for (const configuration of configurations) {
+		if (configuration.status !== ConfigurationStatus.ENABLED) {
+			continue;
+		}
+
+		const source = toNode(configuration.source);
+		const target = toNode(configuration.target);
+
+		link(source, target);
+		link(target, source);
+	}
+
+	const previous = new Map<string, ConfigurationNode | undefined>([
+		[nodeKey(from), undefined],
+	]);
+	let frontier = [from];
+
+	for (let depth = 0; depth <= maxDepth && frontier.length; depth++) {
+		const next: ConfigurationNode[] = [];
+
+		for (const node of frontier) {
+			if (nodeKey(node) === nodeKey(to)) {
+				return walkBack(previous, node);
+			}
+
+			for (const neighbour of edges.get(nodeKey(node)) ?? []) {
+				if (!previous.has(nodeKey(neighbour))) {
+					previous.set(nodeKey(neighbour), node);
+					next.push(neighbour);
+				}
+			}
+		}
+
+		frontier = next;
+	}
+
+	return undefined;
+}
+
+function nodeKey(node: ConfigurationNode): string {
+	return `${node.app}/${node.object}`;
+}
+
+function toNode(entity: ConfigurationPayload["source"]): ConfigurationNode {
+	return { app: entity.app.handle, object: entity.object.handle };
+}
+
+function walkBack(
+	previous: Map<string, ConfigurationNode | undefined>,
+	node: ConfigurationNode,
+): ConfigurationNode[] {
+	const path = [node];
+
+	for (
+		let current = previous.get(nodeKey(node));
+		current;
+		current = previous.get(nodeKey(current))
+	) {
+		path.unshift(current);
+	}
+
+	return path;
+}
@@ -1,7 +1,24 @@
 export {
+	type ConfigurationNode,
+	findConfigurationPath,
+} from "./graph.js";
+export {
+	buildConfigurationItemURL,
 	buildConfigurationListingURL,
+	type ConfigurationEndpointFilter,
+	type ConfigurationListingFilter,
 	ConfigurationResources,
+	deleteConfiguration,
+	disableConfiguration,
+	enableConfiguration,
+	getConfiguration,
 	listConfigurations,
+	matchesConfigurationFilter,
+	paginateConfigurations,
+	parseConfigurationIdentifiers,
+	parseConfigurationItemResponse,
 	parseConfigurationListingResponse,
+	parseConfigurationUpsertPayload,
+	upsertConfiguration,
 } from "./resources.js";
 export * from "./schema.js";
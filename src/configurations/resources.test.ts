@@ -0,0 +1,364 @@
+import { type Mock, afterEach, beforeEach, describe, expect, test } from 'vitest';
+import {
+  ResponseValidationError,
+  ValidationError,
+} from '../common/errors/validation.js';
+import type { Authorization } from '../common/resources/authorization.js';
+import { MockHelpers, TestDataFactory, TestSetup } from '../common/test-utils.js';
+import {
+  ConfigurationResources,
+  deleteConfiguration,
+  disableConfiguration,
+  enableConfiguration,
+  getConfiguration,
+  listConfigurations,
+  matchesConfigurationFilter,
+  paginateConfigurations,
+  upsertConfiguration,
+} from './resources.js';
+
+const ITEM_PATH =
+  '/v1/configurations/source-app/source-object/target-app/target-object';
+
+describe('Configurations Resources', () => {
+  let mockFetch: Mock;
+  let mockAuthorization: Mock<Authorization>;
+  let mockInstance: any;
+  let validConfiguration: any;
+
+  beforeEach(() => {
+    const testEnv = TestSetup.createTestEnvironment();
+    mockFetch = testEnv.mockFetch;
+    mockAuthorization = testEnv.mockAuthorization;
+
+    mockInstance = {
+      config: {
+        host: 'https://api.test.example.com',
+        accessToken: 'test-token',
+      },
+      authorizer: mockAuthorization,
+    };
+
+    validConfiguration = TestDataFactory.validConfiguration();
+  });
+
+  afterEach(() => {
+    TestSetup.standardAfterEach();
+  });
+
+  describe('getConfiguration function', () => {
+    test('should GET the item URL built from handles or references', async () => {
+      mockFetch
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validConfiguration))
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validConfiguration));
+
+      const result = await getConfiguration(
+        mockInstance,
+        TestDataFactory.validConfigurationIdentifiers()
+      );
+      await getConfiguration(mockInstance, {
+        source: {
+          app: { handle: 'source-app' },
+          object: { handle: 'source-object' },
+        },
+        target: {
+          app: { handle: 'target-app' },
+          object: { handle: 'target-object' },
+        },
+      });
+
+      expect(result.status).toBe('enabled');
+      for (const [url, init] of mockFetch.mock.calls) {
+        expect(url).toEqual(new URL(ITEM_PATH, mockInstance.config.host));
+        expect(init.method).toBe('GET');
+      }
+    });
+
+    test('should reject invalid identifiers without sending a request', async () => {
+      await expect(
+        getConfiguration(mockInstance, { source: { app: 'source-app' } } as any)
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('upsertConfiguration function', () => {
+    test('should PUT the validated payload to the item URL', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(validConfiguration)
+      );
+
+      await upsertConfiguration(
+        mockInstance,
+        TestDataFactory.validUpsertConfigurationPayload()
+      );
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toEqual(new URL(ITEM_PATH, mockInstance.config.host));
+      expect(init.method).toBe('PUT');
+      expect(JSON.parse(init.body)).toEqual({
+        source: {
+          app: { handle: 'source-app' },
+          object: { handle: 'source-object' },
+          join: 'one',
+        },
+        target: {
+          app: { handle: 'target-app' },
+          object: { handle: 'target-object' },
+          join: 'many',
+        },
+        status: 'enabled',
+      });
+    });
+
+    test('should reject an invalid join without sending a request', async () => {
+      const payload = TestDataFactory.validUpsertConfigurationPayload();
+
+      await expect(
+        upsertConfiguration(mockInstance, {
+          ...payload,
+          source: { ...payload.source, join: 'several' as any },
+        })
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteConfiguration function', () => {
+    test('should DELETE the item URL', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponseWithJsonError()
+      );
+
+      await expect(
+        deleteConfiguration(
+          mockInstance,
+          TestDataFactory.validConfigurationIdentifiers()
+        )
+      ).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL(ITEM_PATH, mockInstance.config.host),
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+  });
+
+  describe('enable and disable', () => {
+    test('should write the current joins back with the new status', async () => {
+      mockFetch
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validConfiguration))
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse({
+            ...validConfiguration,
+            status: 'disabled',
+          })
+        );
+
+      const result = await disableConfiguration(
+        mockInstance,
+        TestDataFactory.validConfigurationIdentifiers()
+      );
+
+      expect(result.status).toBe('disabled');
+      const [, init] = mockFetch.mock.calls[1];
+      expect(init.method).toBe('PUT');
+      expect(JSON.parse(init.body)).toEqual(
+        expect.objectContaining({
+          source: expect.objectContaining({ join: 'one' }),
+          target: expect.objectContaining({ join: 'many' }),
+          status: 'disabled',
+        })
+      );
+    });
+
+    test('should not write when the status already matches', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(validConfiguration)
+      );
+
+      const result = await enableConfiguration(
+        mockInstance,
+        TestDataFactory.validConfigurationIdentifiers()
+      );
+
+      expect(result.status).toBe('enabled');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should refuse to overwrite a join unknown to the SDK', async () => {
+      mockInstance.config.responseValidation = 'lenient';
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse({
+          ...validConfiguration,
+          target: { ...validConfiguration.target, join: 'several' },
+        })
+      );
+
+      const error = (await disableConfiguration(
+        mockInstance,
+        TestDataFactory.validConfigurationIdentifiers()
+      ).catch((e) => e)) as ValidationError;
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.type).toBe('unknown_join');
+      expect(error.fields).toEqual({ 'target.join': 'Unknown join' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should be available on the resource class', async () => {
+      const resources = new ConfigurationResources(mockInstance);
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse({
+            ...validConfiguration,
+            status: 'disabled',
+          })
+        )
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validConfiguration));
+
+      await resources.enable(TestDataFactory.validConfigurationIdentifiers());
+
+      expect(mockFetch.mock.calls.map(([, init]) => init.method)).toEqual([
+        'GET',
+        'PUT',
+      ]);
+    });
+  });
+
+  describe('Listing filters', () => {
+    const configuration = (
+      source: [string, string, 'one' | 'many'],
+      target: [string, string, 'one' | 'many'],
+      status: 'enabled' | 'disabled' = 'enabled'
+    ) => ({
+      source: {
+        app: { handle: source[0], name: source[0] },
+        object: { handle: source[1], name: source[1] },
+        join: source[2],
+      },
+      target: {
+        app: { handle: target[0], name: target[0] },
+        object: { handle: target[1], name: target[1] },
+        join: target[2],
+      },
+      status,
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    const crmToEvents = configuration(
+      ['crm', 'contact', 'one'],
+      ['events', 'registration', 'many']
+    );
+    const eventsToBilling = configuration(
+      ['events', 'registration', 'one'],
+      ['billing', 'invoice', 'one'],
+      'disabled'
+    );
+    const crmToBilling = configuration(
+      ['crm', 'contact', 'many'],
+      ['billing', 'customer', 'one']
+    );
+
+    test('should only send the app filter to the server', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse({ items: [] })
+      );
+
+      await listConfigurations(mockInstance, {
+        app: 'crm',
+        source: { object: 'contact' },
+        status: 'disabled',
+      });
+
+      const [url] = mockFetch.mock.calls[0];
+      expect([...url.searchParams.entries()]).toEqual([['filter[app]', 'crm']]);
+    });
+
+    test('should filter the remaining criteria client-side', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse({
+          items: [crmToEvents, eventsToBilling, crmToBilling],
+          pagination: { nextToken: 'next' },
+        })
+      );
+
+      const result = await listConfigurations(mockInstance, {
+        source: { app: 'crm', object: 'contact' },
+        target: { app: 'events' },
+      });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].target.app.handle).toBe('events');
+      expect(result.pagination?.nextToken).toBe('next');
+    });
+
+    test('should match either side for top-level criteria', () => {
+      const items = [crmToEvents, eventsToBilling, crmToBilling] as any[];
+      const matching = (filter: any) =>
+        items.filter((item) => matchesConfigurationFilter(item, filter));
+
+      expect(matching({ app: 'events', object: 'registration' })).toEqual([
+        crmToEvents,
+        eventsToBilling,
+      ]);
+      expect(matching({ app: 'events', join: 'many' })).toEqual([crmToEvents]);
+      expect(matching({ app: 'crm', object: 'invoice' })).toEqual([]);
+      expect(matching({ status: 'disabled' })).toEqual([eventsToBilling]);
+      expect(matching({ join: 'many' })).toEqual([crmToEvents, crmToBilling]);
+      expect(matching(undefined)).toEqual(items);
+    });
+
+    test('should keep paginating past pages emptied by the filter', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse({
+            items: [crmToEvents],
+            pagination: { nextToken: 'page-2' },
+          })
+        )
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse({ items: [eventsToBilling] })
+        );
+
+      const paginator = paginateConfigurations(mockInstance, {
+        status: 'disabled',
+      });
+      const items = await paginator.toArray();
+
+      expect(items).toHaveLength(1);
+      expect(items[0].status).toBe('disabled');
+      expect(paginator.checkpoint.filters).toEqual({ status: 'disabled' });
+    });
+  });
+
+  describe('Response validation', () => {
+    const drifted = () => ({
+      ...validConfiguration,
+      status: 'unknown',
+      source: { ...validConfiguration.source, join: 'unknown' },
+    });
+
+    test('should reject the unknown placeholder by default', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse({ items: [drifted()] })
+      );
+
+      await expect(listConfigurations(mockInstance)).rejects.toBeInstanceOf(
+        ResponseValidationError
+      );
+    });
+
+    test('should substitute unknown members in lenient mode', async () => {
+      mockInstance.config.responseValidation = 'lenient';
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse({
+          items: [{ ...validConfiguration, status: 'paused' }],
+        })
+      );
+
+      const result = await listConfigurations(mockInstance);
+
+      expect(result.items[0].status).toBe('unknown');
+    });
+  });
+});
@@ -1,25 +1,66 @@
 import type { AppHandle } from "../apps/schema.js";
+import { ValidationError } from "../common/errors/validation.js";
 import type { MondoAppConnect } from "../common/init.js";
-import { getItemWithAuthorization } from "../common/resources/operations.js";
+import {
+	deleteItemWithAuthorization,
+	getItemWithAuthorization,
+	putItemWithAuthorization,
+	type RequestOptions,
+} from "../common/resources/operations.js";
+import { Paginator } from "../common/resources/paginator.js";
 import {
 	addFiltersToURL,
 	addPaginationToURL,
-	parseEgressSchema,
+	type ParseOptions,
+	parseIngressSchema,
 } from "../common/resources/utils.js";
+import {
+	parseResponse,
+	responseParseOptions,
+} from "../common/resources/validation.js";
 import {
 	type PaginationCollection,
 	PaginationCollectionSchema,
 } from "../common/schema/collection.js";
 import type { Pagination } from "../common/schema/pagination.js";
+import { UNKNOWN } from "../common/schema/schema.js";
+import type { AppObjectHandle } from "../objects/schema.js";
 import {
+	type AnyConfigurationStatus,
+	type AnyJoinType,
+	type ConfigurationIdentifiers,
+	type ConfigurationIdentifiersInput,
+	ConfigurationIdentifiersSchema,
 	type ConfigurationPayload,
 	ConfigurationPayloadSchema,
+	ConfigurationStatus,
+	LenientConfigurationPayloadSchema,
+	type UpsertConfigurationInput,
+	type UpsertConfigurationPayload,
+	UpsertConfigurationPayloadSchema,
 } from "./schema.js";
 
 const PATH = "/v1/configurations";
 
-export type ConfigurationListingFilter = {
+/**
+ * Matches one side of a configuration
+ */
+export type ConfigurationEndpointFilter = {
 	app?: AppHandle;
+	object?: AppObjectHandle;
+	join?: AnyJoinType;
+};
+
+/**
+ * Top-level `app`, `object` and `join` match when either side satisfies all
+ * of them; `source` and `target` constrain a specific side.  Only `app` is
+ * filtered by the server, the rest is applied to each page as it arrives, so
+ * pages may hold fewer items than requested.
+ */
+export type ConfigurationListingFilter = ConfigurationEndpointFilter & {
+	source?: ConfigurationEndpointFilter;
+	target?: ConfigurationEndpointFilter;
+	status?: AnyConfigurationStatus;
 };
 
 export class ConfigurationResources {
@@ -28,8 +69,55 @@ export class ConfigurationResources {
 	public listItems(
 		filter?: ConfigurationListingFilter,
 		pagination?: Pagination,
+		options?: RequestOptions,
 	): Promise<PaginationCollection<ConfigurationPayload>> {
-		return listConfigurations(this.instance, filter, pagination);
+		return listConfigurations(this.instance, filter, pagination, options);
+	}
+
+	/**
+	 * Every item of the listing, fetched page by page while iterating
+	 */
+	public list(
+		filter?: ConfigurationListingFilter,
+		pagination?: Pagination,
+		options?: RequestOptions,
+	): Paginator<ConfigurationPayload> {
+		return paginateConfigurations(this.instance, filter, pagination, options);
+	}
+
+	public getItem(
+		identifiers: ConfigurationIdentifiersInput,
+		options?: RequestOptions,
+	): Promise<ConfigurationPayload> {
+		return getConfiguration(this.instance, identifiers, options);
+	}
+
+	public upsertItem(
+		item: UpsertConfigurationInput,
+		options?: RequestOptions,
+	): Promise<ConfigurationPayload> {
+		return upsertConfiguration(this.instance, item, options);
+	}
+
+	public deleteItem(
+		identifiers: ConfigurationIdentifiersInput,
+		options?: RequestOptions,
+	): Promise<void> {
+		return deleteConfiguration(this.instance, identifiers, options);
+	}
+
+	public enable(
+		identifiers: ConfigurationIdentifiersInput,
+		options?: RequestOptions,
+	): Promise<ConfigurationPayload> {
+		return enableConfiguration(this.instance, identifiers, options);
+	}
+
+	public disable(
+		identifiers: ConfigurationIdentifiersInput,
+		options?: RequestOptions,
+	): Promise<ConfigurationPayload> {
+		return disableConfiguration(this.instance, identifiers, options);
 	}
 }
 
@@ -40,15 +128,113 @@ export function buildConfigurationListingURL(
 ): URL {
 	return addFiltersToURL(
 		addPaginationToURL(new URL(PATH, instance.config.host), pagination),
-		filter,
+		filter?.app ? { app: filter.app } : undefined,
+	);
+}
+
+export function buildConfigurationItemURL(
+	instance: MondoAppConnect,
+	identifiers: ConfigurationIdentifiers,
+): URL {
+	const { source, target } = identifiers;
+
+	return new URL(
+		`${PATH}/${source.app.handle}/${source.object.handle}/${target.app.handle}/${target.object.handle}`,
+		instance.config.host,
+	);
+}
+
+export function matchesConfigurationFilter(
+	configuration: ConfigurationPayload,
+	filter: ConfigurationListingFilter = {},
+): boolean {
+	const { source, target, status, ...either } = filter;
+
+	return (
+		(status === undefined || configuration.status === status) &&
+		matchesEndpoint(configuration.source, source) &&
+		matchesEndpoint(configuration.target, target) &&
+		(matchesEndpoint(configuration.source, either) ||
+			matchesEndpoint(configuration.target, either))
 	);
 }
 
+function matchesEndpoint(
+	endpoint: ConfigurationPayload["source"],
+	filter: ConfigurationEndpointFilter = {},
+): boolean {
+	return (
+		(filter.app === undefined || endpoint.app.handle === filter.app) &&
+		(filter.object === undefined || endpoint.object.handle === filter.object) &&
+		(filter.join === undefined || endpoint.join === filter.join)
+	);
+}
+
+/**
+ * The filter as flat `key: value` pairs, e.g. `source.app`, for checkpoints
+ */
+function flattenFilter(
+	filter: ConfigurationListingFilter = {},
+): Record<string, string> {
+	const { source, target, ...rest } = filter;
+	const flat: Record<string, string> = {};
+
+	for (const [prefix, values] of [
+		["", rest],
+		["source.", source ?? {}],
+		["target.", target ?? {}],
+	] as const) {
+		for (const [key, value] of Object.entries(values)) {
+			if (value !== undefined) {
+				flat[`${prefix}${key}`] = value;
+			}
+		}
+	}
+
+	return flat;
+}
+
 export function parseConfigurationListingResponse(
 	data: unknown,
+	options?: ParseOptions,
 ): PaginationCollection<ConfigurationPayload> {
-	return parseEgressSchema(
-		PaginationCollectionSchema(ConfigurationPayloadSchema).safeParse(data),
+	return parseResponse(
+		PaginationCollectionSchema(ConfigurationPayloadSchema),
+		data,
+		options,
+		PaginationCollectionSchema(LenientConfigurationPayloadSchema),
+	);
+}
+
+export function parseConfigurationItemResponse(
+	data: unknown,
+	options?: ParseOptions,
+): ConfigurationPayload {
+	return parseResponse(
+		ConfigurationPayloadSchema,
+		data,
+		options,
+		LenientConfigurationPayloadSchema,
+	);
+}
+
+export function parseConfigurationIdentifiers(
+	data: unknown,
+	options?: ParseOptions,
+): ConfigurationIdentifiers {
+	return parseIngressSchema(
+		ConfigurationIdentifiersSchema.safeParse(data),
+		options,
+	);
+}
+
+export function parseConfigurationUpsertPayload(
+	data: unknown,
+	options?: ParseOptions,
+): UpsertConfigurationPayload {
+	return parseIngressSchema(
+		UpsertConfigurationPayloadSchema.safeParse(data),
+		options,
 	);
 }
 
@@ -56,11 +242,170 @@ export async function listConfigurations(
 	instance: MondoAppConnect,
 	filter?: ConfigurationListingFilter,
 	pagination?: Pagination,
+	options?: RequestOptions,
 ): Promise<PaginationCollection<ConfigurationPayload>> {
-	return parseConfigurationListingResponse(
-		await getItemWithAuthorization(
-			buildConfigurationListingURL(instance, filter, pagination),
-			instance.authorizer,
+	const url = buildConfigurationListingURL(instance, filter, pagination);
+	const collection = parseConfigurationListingResponse(
+		await getItemWithAuthorization(url, instance.authorizer, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+
+	return {
+		...collection,
+		items: collection.items.filter((item) =>
+			matchesConfigurationFilter(item, filter),
+		),
+	};
+}
+
+export function paginateConfigurations(
+	instance: MondoAppConnect,
+	filter?: ConfigurationListingFilter,
+	pagination?: Pagination,
+	options?: RequestOptions,
+): Paginator<ConfigurationPayload> {
+	return new Paginator(
+		(page) => listConfigurations(instance, filter, page, options),
+		pagination,
+		{
+			endpoint: buildConfigurationListingURL(instance).toString(),
+			filters: flattenFilter(filter),
+		},
+	);
+}
+
+export async function getConfiguration(
+	instance: MondoAppConnect,
+	identifiers: ConfigurationIdentifiersInput,
+	options?: RequestOptions,
+): Promise<ConfigurationPayload> {
+	const url = buildConfigurationItemURL(
+		instance,
+		parseConfigurationIdentifiers(identifiers, { logger: instance.logger }),
+	);
+
+	return parseConfigurationItemResponse(
+		await getItemWithAuthorization(url, instance.authorizer, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+}
+
+export async function upsertConfiguration(
+	instance: MondoAppConnect,
+	item: UpsertConfigurationInput,
+	options?: RequestOptions,
+): Promise<ConfigurationPayload> {
+	const payload = parseConfigurationUpsertPayload(item, {
+		logger: instance.logger,
+	});
+	const url = buildConfigurationItemURL(instance, payload);
+
+	return parseConfigurationItemResponse(
+		await putItemWithAuthorization(url, instance.authorizer, payload, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+}
+
+export async function deleteConfiguration(
+	instance: MondoAppConnect,
+	identifiers: ConfigurationIdentifiersInput,
+	options?: RequestOptions,
+): Promise<void> {
+	await deleteItemWithAuthorization(
+		buildConfigurationItemURL(
+			instance,
+			parseConfigurationIdentifiers(identifiers, { logger: instance.logger }),
 		),
+		instance.authorizer,
+		undefined,
+		{ ...instance.operationOptions, ...options },
+	);
+}
+
+export function enableConfiguration(
+	instance: MondoAppConnect,
+	identifiers: ConfigurationIdentifiersInput,
+	options?: RequestOptions,
+): Promise<ConfigurationPayload> {
+	return setConfigurationStatus(
+		instance,
+		identifiers,
+		ConfigurationStatus.ENABLED,
+		options,
+	);
+}
+
+export function disableConfiguration(
+	instance: MondoAppConnect,
+	identifiers: ConfigurationIdentifiersInput,
+	options?: RequestOptions,
+): Promise<ConfigurationPayload> {
+	return setConfigurationStatus(
+		instance,
+		identifiers,
+		ConfigurationStatus.DISABLED,
+		options,
+	);
+}
+
+/**
+ * The upsert payload requires both joins, so the current configuration is
+ * read first and written back with only the status changed.  Nothing is
+ * written when the status already matches; a join this SDK does not know is
+ * rejected rather than overwritten.
+ */
+async function setConfigurationStatus(
+	instance: MondoAppConnect,
+	identifiers: ConfigurationIdentifiersInput,
+	status: AnyConfigurationStatus,
+	options?: RequestOptions,
+): Promise<ConfigurationPayload> {
+	const current = await getConfiguration(instance, identifiers, options);
+	const { source, target } = current;
+
+	if (current.status === status) {
+		return current;
+	}
+
+	if (source.join === UNKNOWN || target.join === UNKNOWN) {
+		throw new ValidationError(
+			"The configuration has a join this version of the SDK does not know; changing its status would overwrite the join",
+			{
+				statusCode: 400,
+				type: "unknown_join",
+				fields: Object.fromEntries(
+					(["source", "target"] as const)
+						.filter((side) => current[side].join === UNKNOWN)
+						.map((side) => [`${side}.join`, "Unknown join"]),
+				),
+			},
+		);
+	}
+
+	return upsertConfiguration(
+		instance,
+		{
+			source: {
+				app: source.app.handle,
+				object: source.object.handle,
+				join: source.join,
+			},
+			target: {
+				app: target.app.handle,
+				object: target.object.handle,
+				join: target.join,
+			},
+			status,
+		},
+		options,
 	);
 }
@@ -7,6 +7,7 @@ import {
     ConfigurationSchema,
     ConfigurationStatus,
     JoinType,
+    LenientConfigurationPayloadSchema,
     SourceSchema,
     TargetSchema,
     UpsertConfigurationPayloadSchema,
@@ -443,6 +444,36 @@ describe('Configurations Schema Validation', () => {
       const result = ConfigurationPayloadSchema.safeParse(invalidPayload);
       expect(result.success).toBe(false);
     });
+
+    test('should reject the unknown placeholder for enums', () => {
+      const configuration = TestDataFactory.validConfiguration();
+
+      expect(
+        ConfigurationPayloadSchema.safeParse({ ...configuration, status: 'unknown' })
+          .success
+      ).toBe(false);
+      expect(
+        ConfigurationPayloadSchema.safeParse({
+          ...configuration,
+          source: { ...configuration.source, join: 'unknown' },
+        }).success
+      ).toBe(false);
+    });
+
+    test('should accept the unknown placeholder in the lenient variant', () => {
+      const configuration = TestDataFactory.validConfiguration();
+      const result = LenientConfigurationPayloadSchema.safeParse({
+        ...configuration,
+        status: 'unknown',
+        source: { ...configuration.source, join: 'unknown' },
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.data.status).toBe('unknown');
+      expect(result.data.source.join).toBe('unknown');
+    });
   });
 
   describe('UpsertConfigurationPayloadSchema', () => {
@@ -3,7 +3,8 @@ import { AppHandleSchema, AppReferenceSchema } from "../apps/schema.js";
 import {
 	RequiredDatePayloadSchema,
 	RequiredDateSchema,
-} from "../common/index.js";
+	UNKNOWN,
+} from "../common/schema/schema.js";
 import {
 	AppObjectHandleSchema,
 	AppObjectReferenceSchema,
@@ -19,6 +20,9 @@ const JoinSchema = z.enum([JoinType.ONE, JoinType.MANY]);
 const JoinPropertySchema = z.object({
 	join: JoinSchema.default(JoinType.ONE),
 });
+const LenientJoinPropertySchema = z.object({
+	join: z.enum([JoinType.ONE, JoinType.MANY, UNKNOWN]).default(JoinType.ONE),
+});
 
 export const ConfigurationStatus = {
 	ENABLED: "enabled",
@@ -35,6 +39,11 @@ const StatusSchema = z.enum([
 const StatusPropertySchema = z.object({
 	status: StatusSchema.default(ConfigurationStatus.ENABLED),
 });
+const LenientStatusPropertySchema = z.object({
+	status: z
+		.enum([ConfigurationStatus.ENABLED, ConfigurationStatus.DISABLED, UNKNOWN])
+		.default(ConfigurationStatus.ENABLED),
+});
 
 const EntitySchema = JoinPropertySchema.extend({
 	app: AppReferenceSchema,
@@ -57,10 +66,30 @@ export const ConfigurationSchema = BaseSchema.extend({
 export type ConfigurationProperties = z.input<typeof ConfigurationSchema>;
 export type Configuration = z.output<typeof ConfigurationSchema>;
 
-export const ConfigurationPayloadSchema = BaseSchema.extend({
+export const ConfigurationPayloadSchema = StatusPropertySchema.extend({
+	source: EntitySchema,
+	target: EntitySchema,
 	updatedAt: RequiredDatePayloadSchema,
 });
-export type ConfigurationPayload = z.output<typeof ConfigurationPayloadSchema>;
+
+const LenientEntitySchema = LenientJoinPropertySchema.extend({
+	app: AppReferenceSchema,
+	object: AppObjectReferenceSchema,
+});
+
+/**
+ * Enums also accept `unknown`, which lenient response validation substitutes
+ * for members this version of the SDK does not know about
+ */
+export const LenientConfigurationPayloadSchema =
+	LenientStatusPropertySchema.extend({
+		source: LenientEntitySchema,
+		target: LenientEntitySchema,
+		updatedAt: RequiredDatePayloadSchema,
+	});
+export type ConfigurationPayload = z.output<
+	typeof LenientConfigurationPayloadSchema
+>;
 
 const EntityHandleSchema = z.object({
 	app: AppHandleSchema,
@@ -1,12 +1,31 @@
 export {
 	associateConnection,
+	associateConnections,
 	buildConnectionItemURL,
 	buildConnectionListingURL,
+	type ConnectionBulkOptions,
+	type ConnectionBulkReport,
+	type ConnectionPair,
 	ConnectionResources,
+	type ConnectionSyncOptions,
+	type ConnectionSyncResult,
 	dissociateConnection,
+	dissociateConnections,
 	listConnections,
+	paginateConnections,
 	parseConnectionItemResponse,
 	parseConnectionListingResponse,
 	parseConnectionUpsertPayload,
+	type ResolvedPath,
+	type ResolvedTarget,
+	type ResolveManyOptions,
+	type ResolveManyResult,
+	type ResolvePathOptions,
+	type ResolveTarget,
+	resolveConnection,
+	resolveConnectionPath,
+	resolveConnections,
+	sourceKey,
+	syncConnections,
 } from "./resources.js";
 export * from "./schema.js";
@@ -7,14 +7,26 @@ import {
   test,
   vi,
 } from 'vitest';
+import { AmbiguousConnectionError } from '../common/errors/connection.js';
 import { HttpError } from '../common/errors/http.js';
+import {
+  ResponseValidationError,
+  ValidationError,
+} from '../common/errors/validation.js';
 import type { Authorization } from '../common/resources/authorization.js';
 import { MockHelpers, TestDataFactory, TestSetup } from '../common/test-utils.js';
 import {
   ConnectionResources,
   associateConnection,
+  associateConnections,
   dissociateConnection,
+  dissociateConnections,
   listConnections,
+  resolveConnection,
+  resolveConnectionPath,
+  resolveConnections,
+  sourceKey,
+  syncConnections,
 } from './resources.js';
 
 describe('Connections Resources', () => {
@@ -632,6 +644,90 @@ describe('Connections Resources', () => {
     });
   });
 
+  describe('Pagination', () => {
+    test('should follow nextToken across pages when iterating', async () => {
+      const second = { ...validConnection, id: 'second-id' };
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse(
+            MockHelpers.createPaginatedResponse([validConnection], 'token-2')
+          )
+        )
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse(
+            MockHelpers.createPaginatedResponse([second], null as any)
+          )
+        );
+
+      const ids: string[] = [];
+      for await (const connection of new ConnectionResources(
+        mockInstance
+      ).list(validSource, undefined, { pageSize: 1 })) {
+        ids.push(connection.id);
+      }
+
+      expect(ids).toEqual([validConnection.id, 'second-id']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const url = mockFetch.mock.calls[1][0] as URL;
+      expect(url.searchParams.get('pagination[nextToken]')).toBe('token-2');
+      expect(url.searchParams.get('pagination[pageSize]')).toBe('1');
+    });
+
+    test('should describe the listing in its checkpoint', () => {
+      const paginator = new ConnectionResources(mockInstance).list(
+        validSource,
+        { app: 'target-app' },
+        { pageSize: 10 }
+      );
+
+      expect(paginator.checkpoint).toEqual({
+        endpoint:
+          'https://api.test.example.com/v1/connections/test-app/test-object/test-id-123',
+        filters: { app: 'target-app' },
+        pageSize: 10,
+        nextToken: undefined,
+        done: false,
+      });
+    });
+  });
+
+  describe('Request options', () => {
+    test('should pass request options through resource functions', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(MockHelpers.createPaginatedResponse([]))
+      );
+
+      await listConnections(mockInstance, validSource, undefined, undefined, {
+        signal: controller.signal,
+        headers: { 'x-request-id': 'req-1' },
+        query: { expand: 'app' },
+      });
+
+      const [url, request] = mockFetch.mock.calls[0];
+      expect((url as URL).searchParams.get('expand')).toBe('app');
+      expect(request.signal).toBe(controller.signal);
+      expect((request.headers as Headers).get('x-request-id')).toBe('req-1');
+    });
+
+    test('should pass request options through class methods', async () => {
+      mockFetch.mockResolvedValueOnce(MockHelpers.createMockResponse(validConnection));
+
+      await new ConnectionResources(mockInstance).associateItem(
+        validSource,
+        validUpsertPayload,
+        { headers: { 'x-request-id': 'req-2' } }
+      );
+
+      const [, request] = mockFetch.mock.calls[0];
+      expect((request.headers as Headers).get('x-request-id')).toBe('req-2');
+      expect((request.headers as Headers).get('content-type')).toBe(
+        'application/json'
+      );
+    });
+  });
+
   describe('Error handling edge cases', () => {
     test('should handle malformed API responses', async () => {
       mockFetch.mockResolvedValueOnce(MockHelpers.createMockResponseWithJsonError(200));
@@ -661,5 +757,588 @@ describe('Connections Resources', () => {
         dissociateConnection(mockInstance, validSource, validUpsertPayload)
       ).rejects.toThrow(HttpError);
     });
+
+    test('should reject responses that drifted from the schema', async () => {
+      const drifted = { ...validConnection, inferred: 'sometimes' };
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(MockHelpers.createPaginatedResponse([drifted]))
+      );
+
+      const error = (await listConnections(mockInstance, validSource).catch(
+        (e) => e
+      )) as ResponseValidationError;
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.endpoint).toContain('/v1/connections/test-app/test-object/test-id-123');
+      expect(error.paths).toEqual(['items.0.inferred']);
+      expect(error.issues[0].value).toBe('sometimes');
+      expect(error.data).toEqual(
+        MockHelpers.createPaginatedResponse([drifted])
+      );
+    });
+
+    test('should reject invalid payloads before sending them', async () => {
+      const error = (await associateConnection(mockInstance, validSource, {
+        app: 'target-app',
+      } as any).catch((e) => e)) as ValidationError;
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.statusCode).toBe(400);
+      expect(Object.keys(error.fields).length).toBeGreaterThan(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Resolve', () => {
+    const target = { app: 'events', object: 'registration' };
+    const connection = (id: string, app = 'events', object = 'registration') => ({
+      ...validConnection,
+      app: { handle: app, name: app },
+      object: { handle: object, name: object },
+      id,
+    });
+    const configuration = (join: 'one' | 'many') => ({
+      ...TestDataFactory.validConfiguration(),
+      source: {
+        app: { handle: 'test-app', name: 'Test App' },
+        object: { handle: 'test-object', name: 'Test Object' },
+        join: 'one',
+      },
+      target: {
+        app: { handle: 'events', name: 'Events' },
+        object: { handle: 'registration', name: 'Registration' },
+        join,
+      },
+    });
+    const listing = (...items: any[]) =>
+      MockHelpers.createMockResponse(MockHelpers.createPaginatedResponse(items));
+
+    test('should return the single id of a one join', async () => {
+      mockFetch
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(configuration('one')))
+        .mockResolvedValueOnce(listing(connection('reg-1')));
+
+      const id = await resolveConnection(mockInstance, validSource, target);
+
+      expect(id).toBe('reg-1');
+      const [configurationUrl] = mockFetch.mock.calls[0];
+      expect(configurationUrl.pathname).toBe(
+        '/v1/configurations/test-app/test-object/events/registration'
+      );
+      const [listingUrl] = mockFetch.mock.calls[1];
+      expect(listingUrl.searchParams.get('filter[app]')).toBe('events');
+      expect(listingUrl.searchParams.get('filter[object]')).toBe('registration');
+    });
+
+    test('should return null when a one join has no connection', async () => {
+      mockFetch.mockResolvedValueOnce(listing());
+
+      await expect(
+        resolveConnection(mockInstance, validSource, { ...target, join: 'one' })
+      ).resolves.toBeNull();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should return every id of a many join across pages', async () => {
+      mockFetch
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(configuration('many')))
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse(
+            MockHelpers.createPaginatedResponse([connection('reg-1')], 'next')
+          )
+        )
+        .mockResolvedValueOnce(
+          listing(connection('reg-2'), connection('other', 'crm', 'contact'))
+        );
+
+      const ids = await new ConnectionResources(mockInstance).resolve(
+        validSource,
+        target
+      );
+
+      expect(ids).toEqual(['reg-1', 'reg-2']);
+    });
+
+    test('should read the configuration in reverse when needed', async () => {
+      const reversed = configuration('one');
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createApiErrorResponse('not_found', 'Missing', 404)
+        )
+        .mockResolvedValueOnce(
+          MockHelpers.createMockResponse({
+            ...reversed,
+            source: { ...reversed.target, join: 'many' },
+            target: reversed.source,
+          })
+        )
+        .mockResolvedValueOnce(listing(connection('reg-1')));
+
+      await expect(
+        resolveConnection(mockInstance, validSource, target)
+      ).resolves.toEqual(['reg-1']);
+      expect(mockFetch.mock.calls[1][0].pathname).toBe(
+        '/v1/configurations/events/registration/test-app/test-object'
+      );
+    });
+
+    test('should fail when no configuration connects both objects', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createApiErrorResponse('not_found', 'Missing', 404)
+        )
+        .mockResolvedValueOnce(
+          MockHelpers.createApiErrorResponse('not_found', 'Missing', 404)
+        );
+
+      await expect(
+        resolveConnection(mockInstance, validSource, target)
+      ).rejects.toMatchObject({
+        statusCode: 404,
+        type: 'configuration_not_found',
+      });
+    });
+
+    test('should raise when a one join matches several targets', async () => {
+      mockFetch.mockResolvedValueOnce(
+        listing(connection('reg-1'), connection('reg-2'), connection('reg-1'))
+      );
+
+      const error = (await resolveConnection(mockInstance, validSource, {
+        ...target,
+        join: 'one',
+      }).catch((e) => e)) as AmbiguousConnectionError;
+
+      expect(error).toBeInstanceOf(AmbiguousConnectionError);
+      expect(error.ids).toEqual(['reg-1', 'reg-2']);
+      expect(error.message).toContain('test-app/test-object/test-id-123');
+    });
+
+    describe('resolveMany', () => {
+      const source = (id: string) => ({ ...validSource, id });
+      const sourceId = (url: URL) => url.pathname.split('/').pop() as string;
+
+      test('should resolve distinct sources and key results by source', async () => {
+        mockFetch.mockImplementation(async (url: URL) =>
+          url.pathname.startsWith('/v1/configurations')
+            ? MockHelpers.createMockResponse(configuration('one'))
+            : listing(connection(`reg-${sourceId(url)}`))
+        );
+
+        const { results, failures } = await resolveConnections(
+          mockInstance,
+          [source('1'), source('2'), source('1')],
+          target
+        );
+
+        expect(results).toEqual(
+          new Map([
+            ['test-app/test-object/1', 'reg-1'],
+            ['test-app/test-object/2', 'reg-2'],
+          ])
+        );
+        expect(failures.size).toBe(0);
+        const configurationCalls = mockFetch.mock.calls.filter(([url]) =>
+          url.pathname.startsWith('/v1/configurations')
+        );
+        expect(configurationCalls).toHaveLength(1);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      });
+
+      test('should report failures per source without failing the batch', async () => {
+        mockFetch.mockImplementation(async (url: URL) =>
+          sourceId(url) === 'missing'
+            ? MockHelpers.createApiErrorResponse('not_found', 'Missing', 404)
+            : listing(connection('reg-1'), connection('reg-2'))
+        );
+
+        const { results, failures } = await new ConnectionResources(
+          mockInstance
+        ).resolveMany([source('1'), source('missing')], {
+          ...target,
+          join: 'many',
+        });
+
+        expect(results.get(sourceKey(source('1')))).toEqual(['reg-1', 'reg-2']);
+        expect(results.has(sourceKey(source('missing')))).toBe(false);
+        expect(failures.get(sourceKey(source('missing')))).toBeInstanceOf(
+          HttpError
+        );
+        expect(failures.get(sourceKey(source('missing')))?.statusCode).toBe(
+          404
+        );
+      });
+
+      test('should read the join again after a failed read', async () => {
+        let configurationReads = 0;
+        mockFetch.mockImplementation(async (url: URL) => {
+          if (!url.pathname.startsWith('/v1/configurations')) {
+            return listing(connection(`reg-${sourceId(url)}`));
+          }
+          return ++configurationReads === 1
+            ? MockHelpers.createApiErrorResponse('unavailable', 'Down', 503)
+            : MockHelpers.createMockResponse(configuration('one'));
+        });
+
+        const { results, failures } = await resolveConnections(
+          mockInstance,
+          [source('1'), source('2'), source('3')],
+          target,
+          { concurrency: 1 }
+        );
+
+        expect(failures.get(sourceKey(source('1')))?.statusCode).toBe(503);
+        expect(results).toEqual(
+          new Map([
+            ['test-app/test-object/2', 'reg-2'],
+            ['test-app/test-object/3', 'reg-3'],
+          ])
+        );
+        expect(configurationReads).toBe(2);
+      });
+
+      test('should keep sources of different objects that share an id', async () => {
+        mockFetch.mockImplementation(async (url: URL) =>
+          listing(connection(`reg-${url.pathname.split('/')[3]}`))
+        );
+
+        const { results, failures } = await resolveConnections(
+          mockInstance,
+          [
+            { app: 'crm', object: 'contact', id: '1' },
+            { app: 'web', object: 'user', id: '1' },
+          ],
+          { ...target, join: 'one' }
+        );
+
+        expect(results).toEqual(
+          new Map([
+            ['crm/contact/1', 'reg-crm'],
+            ['web/user/1', 'reg-web'],
+          ])
+        );
+        expect(failures.size).toBe(0);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+
+      test('should keep at most `concurrency` lookups in flight', async () => {
+        let running = 0;
+        let peak = 0;
+        mockFetch.mockImplementation(async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          running--;
+          return listing();
+        });
+
+        const { results } = await resolveConnections(
+          mockInstance,
+          ['1', '2', '3', '4', '5'].map(source),
+          { ...target, join: 'one' },
+          { concurrency: 2 }
+        );
+
+        expect(peak).toBe(2);
+        expect([...results.values()]).toEqual([null, null, null, null, null]);
+      });
+    });
+
+    describe('resolvePath', () => {
+      const link = (source: string, target: string) => {
+        const entity = (node: string) => {
+          const [app, object] = node.split('/');
+          return {
+            app: { handle: app, name: app },
+            object: { handle: object, name: object },
+            join: 'many',
+          };
+        };
+        return {
+          source: entity(source),
+          target: entity(target),
+          status: 'enabled',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        };
+      };
+      const configurations = () =>
+        listing(
+          link('crm/contact', 'website/user'),
+          link('forum/member', 'website/user')
+        );
+      const crmContact = { app: 'crm', object: 'contact', id: 'c-1' };
+
+      test('should walk connections along the shortest path', async () => {
+        mockFetch.mockImplementation(async (url: URL) => {
+          if (url.pathname === '/v1/configurations') {
+            return configurations();
+          }
+          const from = url.pathname.split('/').slice(3).join('/');
+          const to = url.searchParams.get('filter[app]');
+          const ids: Record<string, string[]> = {
+            'crm/contact/c-1:website': ['u-1', 'u-2'],
+            'website/user/u-1:forum': ['m-1'],
+            'website/user/u-2:forum': ['m-1', 'm-2'],
+          };
+          const object = to === 'website' ? 'user' : 'member';
+          return listing(
+            ...(ids[`${from}:${to}`] ?? []).map((id) =>
+              connection(id, to as string, object)
+            )
+          );
+        });
+
+        const result = await resolveConnectionPath(mockInstance, crmContact, {
+          app: 'forum',
+          object: 'member',
+        });
+
+        expect(result.path).toEqual([
+          { app: 'crm', object: 'contact' },
+          { app: 'website', object: 'user' },
+          { app: 'forum', object: 'member' },
+        ]);
+        expect(result.ids).toEqual(['m-1', 'm-2']);
+      });
+
+      test('should stop early when a hop resolves nothing', async () => {
+        mockFetch
+          .mockResolvedValueOnce(configurations())
+          .mockResolvedValueOnce(listing());
+
+        const result = await new ConnectionResources(mockInstance).resolvePath(
+          crmContact,
+          { app: 'forum', object: 'member' }
+        );
+
+        expect(result.ids).toEqual([]);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      });
+
+      test('should fail when no path exists within the maximum depth', async () => {
+        mockFetch.mockResolvedValueOnce(configurations());
+
+        await expect(
+          resolveConnectionPath(
+            mockInstance,
+            crmContact,
+            { app: 'forum', object: 'member' },
+            { maxDepth: 1 }
+          )
+        ).rejects.toMatchObject({
+          statusCode: 404,
+          type: 'configuration_path_not_found',
+        });
+      });
+
+      test('should reject a failed hop', async () => {
+        mockFetch
+          .mockResolvedValueOnce(configurations())
+          .mockResolvedValueOnce(
+            MockHelpers.createApiErrorResponse('server_error', 'Boom', 500)
+          );
+
+        await expect(
+          resolveConnectionPath(mockInstance, crmContact, {
+            app: 'forum',
+            object: 'member',
+          })
+        ).rejects.toMatchObject({ statusCode: 500 });
+      });
+    });
+  });
+
+  describe('Bulk', () => {
+    const pair = (id: string, targetId = `target-${id}`) => ({
+      source: { ...validSource, id },
+      target: { app: 'target-app', object: 'target-object', id: targetId },
+    });
+
+    test('should associate every pair with bounded concurrency', async () => {
+      let running = 0;
+      let peak = 0;
+      mockFetch.mockImplementation(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running--;
+        return MockHelpers.createMockResponse(validConnection);
+      });
+
+      const report = await associateConnections(
+        mockInstance,
+        ['1', '2', '3', '4'].map((id) => pair(id)),
+        { concurrency: 2 }
+      );
+
+      expect(report.succeeded).toHaveLength(4);
+      expect(peak).toBe(2);
+      expect(mockFetch.mock.calls.every(([, init]) => init.method === 'PUT')).toBe(
+        true
+      );
+    });
+
+    test('should report failures and duplicates for a rerun', async () => {
+      mockFetch.mockImplementation(async (url: URL) =>
+        url.pathname.endsWith('/missing')
+          ? MockHelpers.createApiErrorResponse('not_found', 'Missing', 404)
+          : MockHelpers.createMockResponse(validConnection)
+      );
+      const onProgress = vi.fn();
+
+      async function* pairs() {
+        yield pair('1');
+        yield pair('missing');
+        yield pair('1');
+      }
+
+      const report = await new ConnectionResources(mockInstance).dissociateMany(
+        pairs(),
+        { concurrency: 1, onProgress }
+      );
+
+      expect(report.succeeded.map(({ item }) => item.source.id)).toEqual(['1']);
+      expect(report.failed).toHaveLength(1);
+      expect(report.failed[0].item).toEqual(pair('missing'));
+      expect(report.failed[0].error).toBeInstanceOf(HttpError);
+      expect(report.skipped).toEqual([{ item: pair('1'), reason: 'duplicate' }]);
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls[0][1].method).toBe('DELETE');
+    });
+
+    test('should report invalid targets as failed without a request', async () => {
+      const report = await dissociateConnections(mockInstance, [
+        { source: validSource, target: { app: 'target-app' } as any },
+      ]);
+
+      expect(report.failed[0].error).toBeInstanceOf(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should retry retryable failures when asked to', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createApiErrorResponse('unavailable', 'Later', 503)
+        )
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validConnection));
+
+      const report = await associateConnections(mockInstance, [pair('1')], {
+        retry: { maxAttempts: 2, baseDelayMs: 0 },
+      });
+
+      expect(report.succeeded).toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Sync', () => {
+    const target = { app: 'crm', object: 'account' };
+    const account = (id: string) => ({
+      ...validConnection,
+      app: { handle: 'crm', name: 'CRM' },
+      object: { handle: 'account', name: 'Account' },
+      id,
+    });
+    const current = () =>
+      MockHelpers.createMockResponse(
+        MockHelpers.createPaginatedResponse([
+          account('a-1'),
+          account('a-2'),
+          { ...account('other'), object: { handle: 'lead', name: 'Lead' } },
+        ])
+      );
+
+    test('should only send the needed associations and dissociations', async () => {
+      mockFetch.mockImplementation(async (_url: URL, init: RequestInit) =>
+        init.method === 'GET'
+          ? current()
+          : MockHelpers.createMockResponse(validConnection)
+      );
+
+      const result = await syncConnections(mockInstance, validSource, target, [
+        'a-2',
+        'a-3',
+        'a-3',
+      ]);
+
+      expect(result).toEqual({
+        added: ['a-3'],
+        removed: ['a-1'],
+        unchanged: ['a-2'],
+        failed: [],
+      });
+      const mutations = mockFetch.mock.calls
+        .filter(([, init]) => init.method !== 'GET')
+        .map(([, init]) => [init.method, JSON.parse(init.body).id]);
+      expect(mutations).toEqual([
+        ['DELETE', 'a-1'],
+        ['PUT', 'a-3'],
+      ]);
+    });
+
+    test('should leave inferred connections out of the current set', async () => {
+      mockFetch.mockImplementation(async (_url: URL, init: RequestInit) =>
+        init.method === 'GET'
+          ? MockHelpers.createMockResponse(
+              MockHelpers.createPaginatedResponse([
+                account('a-1'),
+                { ...account('a-2'), inferred: true },
+              ])
+            )
+          : MockHelpers.createMockResponse(validConnection)
+      );
+
+      const result = await syncConnections(mockInstance, validSource, target, [
+        'a-1',
+        'a-2',
+      ]);
+
+      expect(result).toEqual({
+        added: ['a-2'],
+        removed: [],
+        unchanged: ['a-1'],
+        failed: [],
+      });
+    });
+
+    test('should not send anything in a dry run', async () => {
+      mockFetch.mockResolvedValueOnce(current());
+
+      const result = await new ConnectionResources(mockInstance).sync(
+        validSource,
+        target,
+        [],
+        { dryRun: true }
+      );
+
+      expect(result).toEqual({
+        added: [],
+        removed: ['a-1', 'a-2'],
+        unchanged: [],
+        failed: [],
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should report rejected changes separately', async () => {
+      mockFetch.mockImplementation(async (_url: URL, init: RequestInit) =>
+        init.method === 'GET'
+          ? current()
+          : MockHelpers.createApiErrorResponse('forbidden', 'Nope', 403)
+      );
+
+      const result = await syncConnections(mockInstance, validSource, target, [
+        'a-1',
+        'a-2',
+        'a-3',
+      ]);
+
+      expect(result.added).toEqual([]);
+      expect(result.unchanged).toEqual(['a-1', 'a-2']);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0]).toMatchObject({ id: 'a-3', change: 'add' });
+      expect(result.failed[0].error.statusCode).toBe(403);
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,20 +1,50 @@
+import type { AppHandle } from "../apps/schema.js";
+import { AmbiguousConnectionError } from "../common/errors/connection.js";
+import { HttpError } from "../common/errors/http.js";
+import { NotFoundError } from "../common/errors/status.js";
 import type { MondoAppConnect } from "../common/init.js";
+import {
+	type BulkOptions,
+	type BulkReport,
+	runBulk,
+} from "../common/resources/bulk.js";
+import { findItem } from "../common/resources/ensure.js";
 import {
 	deleteItemWithAuthorization,
 	getItemWithAuthorization,
 	putItemWithAuthorization,
+	type RequestOptions,
 } from "../common/resources/operations.js";
+import { Paginator } from "../common/resources/paginator.js";
+import {
+	DEFAULT_CONCURRENCY,
+	forEachWithConcurrency,
+} from "../common/resources/pool.js";
 import {
 	addFiltersToURL,
 	addPaginationToURL,
-	parseEgressSchema,
+	type ParseOptions,
 	parseIngressSchema,
 } from "../common/resources/utils.js";
+import {
+	parseResponse,
+	responseParseOptions,
+} from "../common/resources/validation.js";
 import {
 	type PaginationCollection,
 	PaginationCollectionSchema,
 } from "../common/schema/collection.js";
 import type { Pagination } from "../common/schema/pagination.js";
+import {
+	type ConfigurationNode,
+	findConfigurationPath,
+} from "../configurations/graph.js";
+import {
+	getConfiguration,
+	paginateConfigurations,
+} from "../configurations/resources.js";
+import { type AnyJoinType, JoinType } from "../configurations/schema.js";
+import type { AppObjectHandle } from "../objects/schema.js";
 import {
 	type ConnectionPayload,
 	ConnectionPayloadSchema,
@@ -27,6 +57,107 @@ import {
 
 const PATH = "/v1/connections";
 
+/**
+ * The app and object to resolve a source to.  Without a `join`, the
+ * configuration between both objects is read to find it.
+ */
+export type ResolveTarget<J extends AnyJoinType = AnyJoinType> = {
+	app: AppHandle;
+	object: AppObjectHandle;
+	join?: J;
+};
+
+/**
+ * A single id (or null) for a `one` join, every id for a `many` join
+ */
+export type ResolvedTarget<J extends AnyJoinType = AnyJoinType> =
+	J extends typeof JoinType.ONE
+		? string | null
+		: J extends typeof JoinType.MANY
+			? string[]
+			: never;
+
+export type ResolveManyOptions = RequestOptions & {
+	/**
+	 * Lookups in flight at once, defaults to 8
+	 */
+	concurrency?: number;
+};
+
+export type ResolveManyResult<J extends AnyJoinType = AnyJoinType> = {
+	/**
+	 * Resolved target(s) by `sourceKey` of the source
+	 */
+	results: Map<string, ResolvedTarget<J>>;
+	/**
+	 * Lookups that failed, by `sourceKey` of the source
+	 */
+	failures: Map<string, HttpError>;
+};
+
+export type ResolvePathOptions = ResolveManyOptions & {
+	/**
+	 * Most connections to follow from the source, defaults to 4
+	 */
+	maxDepth?: number;
+};
+
+export type ResolvedPath = {
+	/**
+	 * Ids reached in the target object
+	 */
+	ids: string[];
+	/**
+	 * Objects walked through, from the source to the target object
+	 */
+	path: ConfigurationNode[];
+};
+
+const DEFAULT_MAX_DEPTH = 4;
+
+/**
+ * A source and the target to (dis)associate it with
+ */
+export type ConnectionPair = {
+	source: Source;
+	target: UpsertConnectionInput;
+};
+
+export type ConnectionBulkOptions = RequestOptions &
+	BulkOptions<ConnectionPair, ConnectionPayload>;
+
+export type ConnectionBulkReport = BulkReport<
+	ConnectionPair,
+	ConnectionPayload
+>;
+
+export type ConnectionSyncOptions = RequestOptions & {
+	/**
+	 * Computes the changes without sending them
+	 */
+	dryRun?: boolean;
+	/**
+	 * Changes in flight at once, defaults to 8
+	 */
+	concurrency?: number;
+};
+
+export type ConnectionSyncResult = {
+	/**
+	 * Ids associated (or to associate, in a dry run)
+	 */
+	added: string[];
+	/**
+	 * Ids dissociated (or to dissociate, in a dry run)
+	 */
+	removed: string[];
+	unchanged: string[];
+	/**
+	 * Changes the server rejected; they are not listed as added or removed
+	 */
+	failed: { id: string; change: "add" | "remove"; error: HttpError }[];
+};
+
 export class ConnectionResources {
 	public constructor(private readonly instance: MondoAppConnect) {}
 
@@ -34,22 +165,110 @@ export class ConnectionResources {
 		source: Source,
 		filter?: Partial<Target>,
 		pagination?: Pagination,
+		options?: RequestOptions,
 	): Promise<PaginationCollection<ConnectionPayload>> {
-		return listConnections(this.instance, source, filter, pagination);
+		return listConnections(this.instance, source, filter, pagination, options);
+	}
+
+	/**
+	 * Every item of the listing, fetched page by page while iterating
+	 */
+	public list(
+		source: Source,
+		filter?: Partial<Target>,
+		pagination?: Pagination,
+		options?: RequestOptions,
+	): Paginator<ConnectionPayload> {
+		return paginateConnections(
+			this.instance,
+			source,
+			filter,
+			pagination,
+			options,
+		);
 	}
 
 	public associateItem(
 		source: Source,
 		item: UpsertConnectionInput,
+		options?: RequestOptions,
 	): Promise<ConnectionPayload> {
-		return associateConnection(this.instance, source, item);
+		return associateConnection(this.instance, source, item, options);
 	}
 
 	public dissociateItem(
 		source: Source,
 		item: UpsertConnectionInput,
+		options?: RequestOptions,
 	): Promise<ConnectionPayload> {
-		return dissociateConnection(this.instance, source, item);
+		return dissociateConnection(this.instance, source, item, options);
+	}
+
+	/**
+	 * The id(s) the source is connected to in the target app and object
+	 */
+	public resolve<J extends AnyJoinType = AnyJoinType>(
+		source: Source,
+		target: ResolveTarget<J>,
+		options?: RequestOptions,
+	): Promise<ResolvedTarget<J>> {
+		return resolveConnection(this.instance, source, target, options);
+	}
+
+	/**
+	 * Resolves many sources in parallel, reporting failures per source
+	 */
+	public resolveMany<J extends AnyJoinType = AnyJoinType>(
+		sources: Iterable<Source>,
+		target: ResolveTarget<J>,
+		options?: ResolveManyOptions,
+	): Promise<ResolveManyResult<J>> {
+		return resolveConnections(this.instance, sources, target, options);
+	}
+
+	/**
+	 * Associates every pair, reporting each outcome instead of rejecting
+	 */
+	public associateMany(
+		pairs: Iterable<ConnectionPair> | AsyncIterable<ConnectionPair>,
+		options?: ConnectionBulkOptions,
+	): Promise<ConnectionBulkReport> {
+		return associateConnections(this.instance, pairs, options);
+	}
+
+	/**
+	 * Dissociates every pair, reporting each outcome instead of rejecting
+	 */
+	public dissociateMany(
+		pairs: Iterable<ConnectionPair> | AsyncIterable<ConnectionPair>,
+		options?: ConnectionBulkOptions,
+	): Promise<ConnectionBulkReport> {
+		return dissociateConnections(this.instance, pairs, options);
+	}
+
+	/**
+	 * Makes the desired ids the only connections of the source in the target
+	 * app and object
+	 */
+	public sync(
+		source: Source,
+		target: ConfigurationNode,
+		desiredIds: Iterable<string>,
+		options?: ConnectionSyncOptions,
+	): Promise<ConnectionSyncResult> {
+		return syncConnections(this.instance, source, target, desiredIds, options);
+	}
+
+	/**
+	 * Resolves a source through intermediate objects, along the shortest
+	 * configured path
+	 */
+	public resolvePath(
+		source: Source,
+		target: ConfigurationNode,
+		options?: ResolvePathOptions,
+	): Promise<ResolvedPath> {
+		return resolveConnectionPath(this.instance, source, target, options);
 	}
 }
 
@@ -83,20 +302,30 @@ export function buildConnectionItemURL(
 
 export function parseConnectionListingResponse(
 	data: unknown,
+	options?: ParseOptions,
 ): PaginationCollection<ConnectionPayload> {
-	return parseEgressSchema(
-		PaginationCollectionSchema(ConnectionPayloadSchema).safeParse(data),
+	return parseResponse(
+		PaginationCollectionSchema(ConnectionPayloadSchema),
+		data,
+		options,
 	);
 }
 
-export function parseConnectionItemResponse(data: unknown): ConnectionPayload {
-	return parseEgressSchema(ConnectionPayloadSchema.safeParse(data));
+export function parseConnectionItemResponse(
+	data: unknown,
+	options?: ParseOptions,
+): ConnectionPayload {
+	return parseResponse(ConnectionPayloadSchema, data, options);
 }
 
 export function parseConnectionUpsertPayload(
 	data: unknown,
+	options?: ParseOptions,
 ): UpsertConnectionPayload {
-	return parseIngressSchema(UpsertConnectionPayloadSchema.safeParse(data));
+	return parseIngressSchema(
+		UpsertConnectionPayloadSchema.safeParse(data),
+		options,
+	);
 }
 
 export async function listConnections(
@@ -104,12 +333,33 @@ export async function listConnections(
 	source: Source,
 	filter?: Partial<Target>,
 	pagination?: Pagination,
+	options?: RequestOptions,
 ): Promise<PaginationCollection<ConnectionPayload>> {
+	const url = buildConnectionListingURL(instance, source, filter, pagination);
+
 	return parseConnectionListingResponse(
-		await getItemWithAuthorization(
-			buildConnectionListingURL(instance, source, filter, pagination),
-			instance.authorizer,
-		),
+		await getItemWithAuthorization(url, instance.authorizer, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+}
+
+export function paginateConnections(
+	instance: MondoAppConnect,
+	source: Source,
+	filter?: Partial<Target>,
+	pagination?: Pagination,
+	options?: RequestOptions,
+): Paginator<ConnectionPayload> {
+	return new Paginator(
+		(page) => listConnections(instance, source, filter, page, options),
+		pagination,
+		{
+			endpoint: buildConnectionListingURL(instance, source).toString(),
+			filters: filter,
+		},
 	);
 }
 
@@ -117,13 +367,18 @@ export async function associateConnection(
 	instance: MondoAppConnect,
 	source: Source,
 	item: UpsertConnectionInput,
+	options?: RequestOptions,
 ): Promise<ConnectionPayload> {
+	const url = buildConnectionItemURL(instance, source);
+
 	return parseConnectionItemResponse(
 		await putItemWithAuthorization(
-			buildConnectionItemURL(instance, source),
+			url,
 			instance.authorizer,
-			parseConnectionUpsertPayload(item),
+			parseConnectionUpsertPayload(item, { logger: instance.logger }),
+			{ ...instance.operationOptions, ...options },
 		),
+		responseParseOptions(instance, url),
 	);
 }
 
@@ -131,12 +386,347 @@ export async function dissociateConnection(
 	instance: MondoAppConnect,
 	source: Source,
 	item: UpsertConnectionInput,
+	options?: RequestOptions,
 ): Promise<ConnectionPayload> {
+	const url = buildConnectionItemURL(instance, source);
+
 	return parseConnectionItemResponse(
 		await deleteItemWithAuthorization(
-			buildConnectionItemURL(instance, source),
+			url,
 			instance.authorizer,
-			parseConnectionUpsertPayload(item),
+			parseConnectionUpsertPayload(item, { logger: instance.logger }),
+			{ ...instance.operationOptions, ...options },
+		),
+		responseParseOptions(instance, url),
+	);
+}
+
+export function associateConnections(
+	instance: MondoAppConnect,
+	pairs: Iterable<ConnectionPair> | AsyncIterable<ConnectionPair>,
+	options?: ConnectionBulkOptions,
+): Promise<ConnectionBulkReport> {
+	return runConnectionBulk(instance, pairs, associateConnection, options);
+}
+
+export function dissociateConnections(
+	instance: MondoAppConnect,
+	pairs: Iterable<ConnectionPair> | AsyncIterable<ConnectionPair>,
+	options?: ConnectionBulkOptions,
+): Promise<ConnectionBulkReport> {
+	return runConnectionBulk(instance, pairs, dissociateConnection, options);
+}
+
+function runConnectionBulk(
+	instance: MondoAppConnect,
+	pairs: Iterable<ConnectionPair> | AsyncIterable<ConnectionPair>,
+	operation: typeof associateConnection,
+	options?: ConnectionBulkOptions,
+): Promise<ConnectionBulkReport> {
+	const { concurrency, retry, onProgress, ...requestOptions } = options ?? {};
+
+	return runBulk(
+		pairs,
+		pairKey,
+		({ source, target }) => operation(instance, source, target, requestOptions),
+		{ concurrency, retry, onProgress, signal: requestOptions.signal },
+	);
+}
+
+function pairKey({ source, target }: ConnectionPair): string {
+	// Invalid pairs still need a key; validation reports them as failed
+	const handle = (value?: string | { handle?: string }) =>
+		typeof value === "string" ? value : value?.handle;
+
+	return [
+		source.app,
+		source.object,
+		source.id,
+		handle(target.app),
+		handle(target.object),
+		target.id,
+	].join("/");
+}
+
+/**
+ * Lists the current explicit connections of the source in the target app and
+ * object, then dissociates the extra ids before associating the missing ones,
+ * so replacing the target of a `one` join never holds two at once.  Inferred
+ * connections are left alone.  Only the needed calls are sent, none in a dry
+ * run.
+ */
+export async function syncConnections(
+	instance: MondoAppConnect,
+	source: Source,
+	target: ConfigurationNode,
+	desiredIds: Iterable<string>,
+	options?: ConnectionSyncOptions,
+): Promise<ConnectionSyncResult> {
+	const { dryRun = false, concurrency, ...requestOptions } = options ?? {};
+	const desired = new Set(desiredIds);
+	const current = new Set(
+		(
+			await paginateConnections(
+				instance,
+				source,
+				{ app: target.app, object: target.object },
+				undefined,
+				requestOptions,
+			).toArray()
+		)
+			.filter(
+				(connection) =>
+					!connection.inferred &&
+					connection.app.handle === target.app &&
+					connection.object.handle === target.object,
+			)
+			.map((connection) => connection.id),
+	);
+	const toAdd = [...desired].filter((id) => !current.has(id));
+	const toRemove = [...current].filter((id) => !desired.has(id));
+	const unchanged = [...desired].filter((id) => current.has(id));
+
+	if (dryRun) {
+		return { added: toAdd, removed: toRemove, unchanged, failed: [] };
+	}
+
+	const pairs = (ids: string[]) =>
+		ids.map((id) => ({ source, target: { ...target, id } }));
+	const bulkOptions = { ...requestOptions, concurrency };
+	const removed = await dissociateConnections(
+		instance,
+		pairs(toRemove),
+		bulkOptions,
+	);
+	const added = await associateConnections(instance, pairs(toAdd), bulkOptions);
+
+	return {
+		added: added.succeeded.map(({ item }) => item.target.id),
+		removed: removed.succeeded.map(({ item }) => item.target.id),
+		unchanged,
+		failed: [
+			...added.failed.map(({ item, error }) => ({
+				id: item.target.id,
+				change: "add" as const,
+				error,
+			})),
+			...removed.failed.map(({ item, error }) => ({
+				id: item.target.id,
+				change: "remove" as const,
+				error,
+			})),
+		],
+	};
+}
+
+export async function resolveConnection<J extends AnyJoinType = AnyJoinType>(
+	instance: MondoAppConnect,
+	source: Source,
+	target: ResolveTarget<J>,
+	options?: RequestOptions,
+): Promise<ResolvedTarget<J>> {
+	const join =
+		target.join ?? (await resolveJoin(instance, source, target, options));
+	const connections = await paginateConnections(
+		instance,
+		source,
+		{ app: target.app, object: target.object },
+		undefined,
+		options,
+	).toArray();
+	const ids = [
+		...new Set(
+			connections
+				.filter(
+					(connection) =>
+						connection.app.handle === target.app &&
+						connection.object.handle === target.object,
+				)
+				.map((connection) => connection.id),
 		),
+	];
+
+	if (join === JoinType.MANY) {
+		return ids as ResolvedTarget<J>;
+	}
+
+	if (ids.length > 1) {
+		throw new AmbiguousConnectionError(
+			`${source.app}/${source.object}/${source.id} has a one join to ${target.app}/${target.object} but is connected to ${ids.length} targets`,
+			{ ids },
+		);
+	}
+
+	return (ids[0] ?? null) as ResolvedTarget<J>;
+}
+
+/**
+ * Identifies a source in the results of `resolveConnections`
+ */
+export function sourceKey(source: Source): string {
+	return `${source.app}/${source.object}/${source.id}`;
+}
+
+/**
+ * Resolves each distinct source with a bounded number of lookups in
+ * flight.  The API has no bulk lookup, so every source is its own listing;
+ * the join is read once per source app and object, and read again by the
+ * next source if that read fails.  Failed lookups are reported in
+ * `failures` instead of rejecting the batch, except aborts.
+ */
+export async function resolveConnections<J extends AnyJoinType = AnyJoinType>(
+	instance: MondoAppConnect,
+	sources: Iterable<Source>,
+	target: ResolveTarget<J>,
+	options?: ResolveManyOptions,
+): Promise<ResolveManyResult<J>> {
+	const { concurrency = DEFAULT_CONCURRENCY, ...requestOptions } =
+		options ?? {};
+	const unique = new Map<string, Source>();
+	const joins = new Map<string, Promise<AnyJoinType>>();
+	const results = new Map<string, ResolvedTarget<J>>();
+	const failures = new Map<string, HttpError>();
+
+	for (const source of sources) {
+		if (!unique.has(sourceKey(source))) {
+			unique.set(sourceKey(source), source);
+		}
+	}
+
+	const joinFor = (source: Source): Promise<AnyJoinType> => {
+		const key = `${source.app}/${source.object}`;
+		let join = joins.get(key);
+
+		if (!join) {
+			join = target.join
+				? Promise.resolve(target.join)
+				: resolveJoin(instance, source, target, requestOptions);
+			joins.set(key, join);
+			// A failed read is not cached, so later sources try again
+			join.catch(() => joins.delete(key));
+		}
+
+		return join;
+	};
+
+	await forEachWithConcurrency(unique.values(), concurrency, async (source) => {
+		try {
+			const join = (await joinFor(source)) as J;
+
+			results.set(
+				sourceKey(source),
+				await resolveConnection(
+					instance,
+					source,
+					{ ...target, join },
+					requestOptions,
+				),
+			);
+		} catch (error) {
+			if (!(error instanceof HttpError)) {
+				throw error;
+			}
+
+			failures.set(sourceKey(source), error);
+		}
+	});
+
+	return { results, failures };
+}
+
+/**
+ * Reads every configuration to find the shortest path of enabled
+ * configurations between the source and target objects, then follows the
+ * connections of each hop in turn.  The first failed lookup rejects.
+ */
+export async function resolveConnectionPath(
+	instance: MondoAppConnect,
+	source: Source,
+	target: ConfigurationNode,
+	options?: ResolvePathOptions,
+): Promise<ResolvedPath> {
+	const {
+		maxDepth = DEFAULT_MAX_DEPTH,
+		concurrency,
+		...requestOptions
+	} = options ?? {};
+
+	if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+		throw new Error(
+			`maxDepth must be a positive integer, received ${maxDepth}`,
+		);
+	}
+
+	const from = { app: source.app, object: source.object };
+	const path = findConfigurationPath(
+		await paginateConfigurations(
+			instance,
+			undefined,
+			undefined,
+			requestOptions,
+		).toArray(),
+		from,
+		target,
+		maxDepth,
 	);
+
+	if (!path) {
+		throw new NotFoundError(
+			`No configured path connects ${source.app}/${source.object} and ${target.app}/${target.object} within ${maxDepth} hops`,
+			{ type: "configuration_path_not_found" },
+		);
+	}
+
+	let ids = [source.id];
+
+	for (let hop = 1; hop < path.length && ids.length; hop++) {
+		const { results, failures } = await resolveConnections(
+			instance,
+			ids.map((id) => ({ ...path[hop - 1], id })),
+			{ ...path[hop], join: JoinType.MANY },
+			{ ...requestOptions, concurrency },
+		);
+		const [failure] = failures.values();
+
+		if (failure) {
+			throw failure;
+		}
+
+		ids = [...new Set([...results.values()].flat())];
+	}
+
+	return { ids, path };
+}
+
+/**
+ * The target join of the configuration between both objects, read in either
+ * direction.  A join this SDK does not know is treated as `many`.
+ */
+async function resolveJoin(
+	instance: MondoAppConnect,
+	source: Source,
+	target: ResolveTarget,
+	options?: RequestOptions,
+): Promise<AnyJoinType> {
+	const from = { app: source.app, object: source.object };
+	const to = { app: target.app, object: target.object };
+	const forward = await findItem(
+		getConfiguration(instance, { source: from, target: to }, options),
+	);
+	const join = forward
+		? forward.target.join
+		: (
+				await findItem(
+					getConfiguration(instance, { source: to, target: from }, options),
+				)
+			)?.source.join;
+
+	if (join === undefined) {
+		throw new NotFoundError(
+			`No configuration connects ${source.app}/${source.object} and ${target.app}/${target.object}`,
+			{ type: "configuration_not_found" },
+		);
+	}
+
+	return join === JoinType.ONE ? JoinType.ONE : JoinType.MANY;
 }
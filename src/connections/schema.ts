@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { AppHandleSchema, AppSchema } from "../apps/schema.js";
-import { RequiredDateSchema } from "../common/index.js";
+import { RequiredDateSchema } from "../common/schema/schema.js";
 import { AppObjectHandleSchema, AppObjectSchema } from "../objects/schema.js";
 
 const BaseEntitySchema = z.object({
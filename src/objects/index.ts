@@ -1,10 +1,19 @@
 export {
 	AppObjectResources,
+	buildAppObjectInsertURL,
 	buildAppObjectItemURL,
 	buildAppObjectListingURL,
+	createAppObject,
+	deleteAppObject,
+	type EnsureAppObjectResult,
+	ensureAppObject,
 	getAppObject,
 	listAppObjects,
+	paginateAppObjects,
+	parseAppObjectInsertPayload,
 	parseAppObjectItemResponse,
 	parseAppObjectListingResponse,
+	parseAppObjectUpdatePayload,
+	updateAppObject,
 } from "./resources.js";
 export * from "./schema.js";
@@ -0,0 +1,229 @@
+import { type Mock, afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { HttpError } from '../common/errors/http.js';
+import { ValidationError } from '../common/errors/validation.js';
+import type { Authorization } from '../common/resources/authorization.js';
+import { MockHelpers, TestDataFactory, TestSetup } from '../common/test-utils.js';
+import {
+  AppObjectResources,
+  createAppObject,
+  deleteAppObject,
+  ensureAppObject,
+  updateAppObject,
+} from './resources.js';
+
+describe('App Objects Resources', () => {
+  let mockFetch: Mock;
+  let mockAuthorization: Mock<Authorization>;
+  let mockInstance: any;
+  let validAppObject: any;
+
+  beforeEach(() => {
+    const testEnv = TestSetup.createTestEnvironment();
+    mockFetch = testEnv.mockFetch;
+    mockAuthorization = testEnv.mockAuthorization;
+
+    mockInstance = {
+      config: {
+        host: 'https://api.test.example.com',
+        accessToken: 'test-token',
+      },
+      authorizer: mockAuthorization,
+    };
+
+    validAppObject = TestDataFactory.validAppObject();
+  });
+
+  afterEach(() => {
+    TestSetup.standardAfterEach();
+  });
+
+  describe('createAppObject function', () => {
+    test('should POST the validated payload under the app', async () => {
+      const payload = TestDataFactory.validInsertAppObjectPayload();
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(validAppObject)
+      );
+
+      const result = await createAppObject(mockInstance, 'test-app', payload);
+
+      expect(result).toEqual(
+        expect.objectContaining({ handle: 'test-object' })
+      );
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL('/v1/apps/test-app/objects', mockInstance.config.host),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify(payload),
+        })
+      );
+    });
+
+    test('should keep URL template tokens readable', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(validAppObject)
+      );
+
+      await createAppObject(mockInstance, 'test-app', {
+        handle: 'ticket',
+        name: 'Ticket',
+        url: new URL('https://example.com/tickets/{{id}}'),
+      });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(JSON.parse(init.body).url).toBe(
+        'https://example.com/tickets/{{id}}'
+      );
+    });
+
+    test('should reject an invalid payload without sending a request', async () => {
+      const error = (await createAppObject(mockInstance, 'test-app', {
+        handle: 'Not A Handle!',
+        name: 'Ticket',
+      }).catch((e) => e)) as ValidationError;
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fields).toHaveProperty('handle');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateAppObject function', () => {
+    test('should PUT the validated payload to the item URL', async () => {
+      const payload = TestDataFactory.validUpdateAppObjectPayload();
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(validAppObject)
+      );
+
+      await updateAppObject(mockInstance, 'test-app', 'test-object', payload);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL(
+          '/v1/apps/test-app/objects/test-object',
+          mockInstance.config.host
+        ),
+        expect.objectContaining({
+          method: 'PUT',
+          body: JSON.stringify(payload),
+        })
+      );
+    });
+
+    test('should surface a missing object as HttpError', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createApiErrorResponse('not_found', 'No such object', 404)
+      );
+
+      const error = (await updateAppObject(
+        mockInstance,
+        'test-app',
+        'missing',
+        { name: 'Renamed' }
+      ).catch((e) => e)) as HttpError;
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.statusCode).toBe(404);
+    });
+  });
+
+  describe('deleteAppObject function', () => {
+    test('should DELETE the item URL', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponseWithJsonError()
+      );
+
+      await expect(
+        deleteAppObject(mockInstance, 'test-app', 'test-object')
+      ).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledWith(
+        new URL(
+          '/v1/apps/test-app/objects/test-object',
+          mockInstance.config.host
+        ),
+        expect.objectContaining({ method: 'DELETE', body: undefined })
+      );
+    });
+  });
+
+  describe('AppObjectResources class', () => {
+    test('should delegate mutations to the module functions', async () => {
+      const resources = new AppObjectResources(mockInstance);
+      mockFetch
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validAppObject))
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validAppObject))
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(undefined));
+
+      await resources.createItem(
+        'test-app',
+        TestDataFactory.validInsertAppObjectPayload()
+      );
+      await resources.updateItem('test-app', 'test-object', {
+        name: 'Renamed',
+      });
+      await resources.deleteItem('test-app', 'test-object');
+
+      expect(mockFetch.mock.calls.map(([, init]) => init.method)).toEqual([
+        'POST',
+        'PUT',
+        'DELETE',
+      ]);
+    });
+  });
+
+  describe('ensureAppObject function', () => {
+    test('should create the object when it does not exist', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          MockHelpers.createApiErrorResponse('not_found', 'No such object', 404)
+        )
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validAppObject));
+
+      const result = await ensureAppObject(mockInstance, 'test-app', {
+        handle: 'test-object',
+        name: 'Test Object',
+      });
+
+      expect(result.outcome).toBe('created');
+      expect(mockFetch.mock.calls[1][0]).toEqual(
+        new URL('/v1/apps/test-app/objects', mockInstance.config.host)
+      );
+    });
+
+    test('should compare normalized URL templates', async () => {
+      mockFetch.mockResolvedValueOnce(
+        MockHelpers.createMockResponse(validAppObject)
+      );
+
+      const result = await ensureAppObject(mockInstance, 'test-app', {
+        handle: 'test-object',
+        name: 'Test Object',
+        url: new URL('https://example.com/object/{{id}}'),
+      });
+
+      expect(result.outcome).toBe('unchanged');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should update a changed URL template', async () => {
+      mockFetch
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validAppObject))
+        .mockResolvedValueOnce(MockHelpers.createMockResponse(validAppObject));
+
+      const result = await ensureAppObject(mockInstance, 'test-app', {
+        handle: 'test-object',
+        name: 'Test Object',
+        url: 'https://example.com/tickets/{{id}}',
+      });
+
+      expect(result.outcome).toBe('updated');
+      expect(result.diff).toEqual({
+        url: {
+          current: 'https://example.com/object/{{id}}',
+          desired: 'https://example.com/tickets/{{id}}',
+        },
+      });
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({
+        url: 'https://example.com/tickets/{{id}}',
+      });
+    });
+  });
+});
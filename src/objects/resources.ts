@@ -1,11 +1,31 @@
 import { PATH as APP_PATH } from "../apps/resources.js";
 import type { AppHandle } from "../apps/schema.js";
 import type { MondoAppConnect } from "../common/init.js";
-import { getItemWithAuthorization } from "../common/resources/operations.js";
+import {
+	changedFields,
+	diffFields,
+	EnsureOutcome,
+	type EnsureResult,
+	findItem,
+	hasChanges,
+} from "../common/resources/ensure.js";
+import {
+	deleteItemWithAuthorization,
+	getItemWithAuthorization,
+	postItemWithAuthorization,
+	putItemWithAuthorization,
+	type RequestOptions,
+} from "../common/resources/operations.js";
+import { Paginator } from "../common/resources/paginator.js";
 import {
 	addPaginationToURL,
-	parseEgressSchema,
+	type ParseOptions,
+	parseIngressSchema,
 } from "../common/resources/utils.js";
+import {
+	parseResponse,
+	responseParseOptions,
+} from "../common/resources/validation.js";
 import {
 	type PaginationCollection,
 	PaginationCollectionSchema,
@@ -15,25 +35,85 @@ import {
 	type AppObjectHandle,
 	type AppObjectPayload,
 	AppObjectPayloadSchema,
+	type InsertAppObjectInput,
+	type InsertAppObjectPayload,
+	InsertAppObjectPayloadSchema,
+	type UpdateAppObjectInput,
+	type UpdateAppObjectPayload,
+	UpdateAppObjectPayloadSchema,
 } from "./schema.js";
 
 const PATH = "objects";
 
+export type EnsureAppObjectResult = EnsureResult<
+	AppObjectPayload,
+	Omit<InsertAppObjectPayload, "handle">
+>;
+
 export class AppObjectResources {
 	public constructor(private readonly instance: MondoAppConnect) {}
 
 	public listItems(
 		app: AppHandle,
 		pagination?: Pagination,
+		options?: RequestOptions,
 	): Promise<PaginationCollection<AppObjectPayload>> {
-		return listAppObjects(this.instance, app, pagination);
+		return listAppObjects(this.instance, app, pagination, options);
+	}
+
+	/**
+	 * Every item of the listing, fetched page by page while iterating
+	 */
+	public list(
+		app: AppHandle,
+		pagination?: Pagination,
+		options?: RequestOptions,
+	): Paginator<AppObjectPayload> {
+		return paginateAppObjects(this.instance, app, pagination, options);
 	}
 
 	public getItem(
 		app: AppHandle,
 		object: AppObjectHandle,
+		options?: RequestOptions,
 	): Promise<AppObjectPayload> {
-		return getAppObject(this.instance, app, object);
+		return getAppObject(this.instance, app, object, options);
+	}
+
+	public createItem(
+		app: AppHandle,
+		item: InsertAppObjectInput,
+		options?: RequestOptions,
+	): Promise<AppObjectPayload> {
+		return createAppObject(this.instance, app, item, options);
+	}
+
+	public updateItem(
+		app: AppHandle,
+		object: AppObjectHandle,
+		item: UpdateAppObjectInput,
+		options?: RequestOptions,
+	): Promise<AppObjectPayload> {
+		return updateAppObject(this.instance, app, object, item, options);
+	}
+
+	public deleteItem(
+		app: AppHandle,
+		object: AppObjectHandle,
+		options?: RequestOptions,
+	): Promise<void> {
+		return deleteAppObject(this.instance, app, object, options);
+	}
+
+	/**
+	 * Creates or updates the object so it matches the input
+	 */
+	public ensureItem(
+		app: AppHandle,
+		item: InsertAppObjectInput,
+		options?: RequestOptions,
+	): Promise<EnsureAppObjectResult> {
+		return ensureAppObject(this.instance, app, item, options);
 	}
 }
 
@@ -56,40 +136,194 @@ export function buildAppObjectItemURL(
 	return new URL(`${APP_PATH}/${app}/${PATH}/${object}`, instance.config.host);
 }
 
+export function buildAppObjectInsertURL(
+	instance: MondoAppConnect,
+	app: AppHandle,
+): URL {
+	return new URL(`${APP_PATH}/${app}/${PATH}`, instance.config.host);
+}
+
 export function parseAppObjectListingResponse(
 	data: unknown,
+	options?: ParseOptions,
 ): PaginationCollection<AppObjectPayload> {
-	return parseEgressSchema(
-		PaginationCollectionSchema(AppObjectPayloadSchema).safeParse(data),
+	return parseResponse(
+		PaginationCollectionSchema(AppObjectPayloadSchema),
+		data,
+		options,
 	);
 }
 
-export function parseAppObjectItemResponse(data: unknown): AppObjectPayload {
-	return parseEgressSchema(AppObjectPayloadSchema.safeParse(data));
+export function parseAppObjectItemResponse(
+	data: unknown,
+	options?: ParseOptions,
+): AppObjectPayload {
+	return parseResponse(AppObjectPayloadSchema, data, options);
+}
+
+export function parseAppObjectInsertPayload(
+	data: unknown,
+	options?: ParseOptions,
+): InsertAppObjectPayload {
+	return parseIngressSchema(
+		InsertAppObjectPayloadSchema.safeParse(data),
+		options,
+	);
+}
+
+export function parseAppObjectUpdatePayload(
+	data: unknown,
+	options?: ParseOptions,
+): UpdateAppObjectPayload {
+	return parseIngressSchema(
+		UpdateAppObjectPayloadSchema.safeParse(data),
+		options,
+	);
 }
 
 export async function listAppObjects(
 	instance: MondoAppConnect,
 	app: AppHandle,
 	pagination?: Pagination,
+	options?: RequestOptions,
 ): Promise<PaginationCollection<AppObjectPayload>> {
+	const url = buildAppObjectListingURL(instance, app, pagination);
+
 	return parseAppObjectListingResponse(
-		await getItemWithAuthorization(
-			buildAppObjectListingURL(instance, app, pagination),
+		await getItemWithAuthorization(url, instance.authorizer, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+}
+
+export function paginateAppObjects(
+	instance: MondoAppConnect,
+	app: AppHandle,
+	pagination?: Pagination,
+	options?: RequestOptions,
+): Paginator<AppObjectPayload> {
+	return new Paginator(
+		(page) => listAppObjects(instance, app, page, options),
+		pagination,
+		{ endpoint: buildAppObjectListingURL(instance, app).toString() },
+	);
+}
+
+export async function getAppObject(
+	instance: MondoAppConnect,
+	app: AppHandle,
+	object: AppObjectHandle,
+	options?: RequestOptions,
+): Promise<AppObjectPayload> {
+	const url = buildAppObjectItemURL(instance, app, object);
+
+	return parseAppObjectItemResponse(
+		await getItemWithAuthorization(url, instance.authorizer, {
+			...instance.operationOptions,
+			...options,
+		}),
+		responseParseOptions(instance, url),
+	);
+}
+
+export async function createAppObject(
+	instance: MondoAppConnect,
+	app: AppHandle,
+	item: InsertAppObjectInput,
+	options?: RequestOptions,
+): Promise<AppObjectPayload> {
+	const url = buildAppObjectInsertURL(instance, app);
+
+	return parseAppObjectItemResponse(
+		await postItemWithAuthorization(
+			url,
 			instance.authorizer,
+			parseAppObjectInsertPayload(item, { logger: instance.logger }),
+			{ ...instance.operationOptions, ...options },
 		),
+		responseParseOptions(instance, url),
 	);
 }
 
-export async function getAppObject(
+export async function updateAppObject(
 	instance: MondoAppConnect,
 	app: AppHandle,
 	object: AppObjectHandle,
+	item: UpdateAppObjectInput,
+	options?: RequestOptions,
 ): Promise<AppObjectPayload> {
+	const url = buildAppObjectItemURL(instance, app, object);
+
 	return parseAppObjectItemResponse(
-		await getItemWithAuthorization(
-			buildAppObjectItemURL(instance, app, object),
+		await putItemWithAuthorization(
+			url,
 			instance.authorizer,
+			parseAppObjectUpdatePayload(item, { logger: instance.logger }),
+			{ ...instance.operationOptions, ...options },
 		),
+		responseParseOptions(instance, url),
+	);
+}
+
+export async function deleteAppObject(
+	instance: MondoAppConnect,
+	app: AppHandle,
+	object: AppObjectHandle,
+	options?: RequestOptions,
+): Promise<void> {
+	await deleteItemWithAuthorization(
+		buildAppObjectItemURL(instance, app, object),
+		instance.authorizer,
+		undefined,
+		{ ...instance.operationOptions, ...options },
 	);
 }
+
+/**
+ * Creates the object when it does not exist, or updates the fields that
+ * differ.  Nothing is sent when it already matches; an unset URL is left as is.
+ */
+export async function ensureAppObject(
+	instance: MondoAppConnect,
+	app: AppHandle,
+	item: InsertAppObjectInput,
+	options?: RequestOptions,
+): Promise<EnsureAppObjectResult> {
+	const { handle, ...desired } = parseAppObjectInsertPayload(item, {
+		logger: instance.logger,
+	});
+	const current = await findItem(getAppObject(instance, app, handle, options));
+
+	if (!current) {
+		return {
+			outcome: EnsureOutcome.CREATED,
+			item: await createAppObject(
+				instance,
+				app,
+				{ handle, ...desired },
+				options,
+			),
+			diff: diffFields(undefined, desired),
+		};
+	}
+
+	const diff = diffFields(current, desired);
+
+	if (!hasChanges(diff)) {
+		return { outcome: EnsureOutcome.UNCHANGED, item: current, diff };
+	}
+
+	return {
+		outcome: EnsureOutcome.UPDATED,
+		item: await updateAppObject(
+			instance,
+			app,
+			handle,
+			changedFields(diff),
+			options,
+		),
+		diff,
+	};
+}
@@ -6,7 +6,7 @@ import {
 	normalizeUrlWithTokens,
 	RequiredDatePayloadSchema,
 	RequiredDateSchema,
-} from "../common/index.js";
+} from "../common/schema/schema.js";
 
 export {
 	HandleSchema as AppObjectHandleSchema,